@@ -1,3 +1,9 @@
+// Allow next/image to optimize files from whichever Supabase project is configured;
+// the local storage backend serves media from this app, which needs no entry
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  ? new URL(process.env.NEXT_PUBLIC_SUPABASE_URL)
+  : null;
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // Performance optimizations
@@ -6,13 +12,16 @@ const nextConfig = {
   
   // Image optimization
   images: {
-    remotePatterns: [
-      {
-        protocol: 'https',
-        hostname: 'csqjrwlbbxtyktppmiby.supabase.co',
-        pathname: '/storage/v1/object/public/**',
-      },
-    ],
+    remotePatterns: supabaseUrl
+      ? [
+          {
+            protocol: supabaseUrl.protocol.replace(':', ''),
+            hostname: supabaseUrl.hostname,
+            port: supabaseUrl.port,
+            pathname: '/storage/v1/object/public/**',
+          },
+        ]
+      : [],
     // Optimize image loading
     formats: ['image/webp', 'image/avif'],
     deviceSizes: [640, 750, 828, 1080, 1200, 1920, 2048, 3840],
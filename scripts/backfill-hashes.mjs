@@ -0,0 +1,129 @@
+// Fills in `content_hashes` (and the per-photo `hash` of albums) for
+// memories uploaded before duplicate detection, by streaming each stored file
+// through SHA-256. Memories that already have hashes are left alone, so the
+// script can be re-run after an interruption.
+//
+//   npm run db:backfill-hashes
+//
+// Reads NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY from .env.local,
+// plus NEXT_PUBLIC_STORAGE_BACKEND, NEXT_PUBLIC_STORAGE_BUCKET and
+// LOCAL_MEDIA_DIR to find the files.
+
+import { createReadStream } from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createClient } from '@supabase/supabase-js';
+
+const BATCH_SIZE = 50;
+const LOCAL_MEDIA_ROUTE = '/api/media/';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const isLocalBackend = process.env.NEXT_PUBLIC_STORAGE_BACKEND === 'local';
+const bucket = process.env.NEXT_PUBLIC_STORAGE_BUCKET || 'memories';
+const localMediaDir = path.resolve(process.env.LOCAL_MEDIA_DIR || 'media');
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+// Opens a stored file the way the app stores it: a public URL, a local
+// `/api/media/...` URL, or a bare object path of the active backend
+async function openFile(supabase, value) {
+  const localPath = value.startsWith(LOCAL_MEDIA_ROUTE)
+    ? decodeURIComponent(value.slice(LOCAL_MEDIA_ROUTE.length))
+    : !/^https?:/.test(value) && isLocalBackend ? value : null;
+  if (localPath !== null) {
+    return createReadStream(path.join(localMediaDir, localPath));
+  }
+
+  const url = /^https?:/.test(value)
+    ? value
+    : supabase.storage.from(bucket).getPublicUrl(value).data.publicUrl;
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download ${url}: ${response.status}`);
+  }
+  return Readable.fromWeb(response.body);
+}
+
+async function hashFile(supabase, value) {
+  const hash = createHash('sha256');
+  await pipeline(await openFile(supabase, value), hash);
+  return hash.digest('hex');
+}
+
+// The client hashes what the user picked, so hash the full-size original
+// where a resized display version was stored next to it
+async function backfillMemory(supabase, memory) {
+  // Albums may mix photos and videos, whatever the cover is
+  if (memory.album_photos?.length) {
+    const albumPhotos = [];
+    for (const photo of memory.album_photos) {
+      albumPhotos.push({ ...photo, hash: photo.hash || await hashFile(supabase, photo.original || photo.src) });
+    }
+    return {
+      content_hashes: [...new Set(albumPhotos.map(photo => photo.hash))],
+      album_photos: albumPhotos,
+    };
+  }
+
+  if (memory.type === 'video') {
+    return { content_hashes: [await hashFile(supabase, memory.src)] };
+  }
+
+  return { content_hashes: [await hashFile(supabase, memory.original || memory.src)] };
+}
+
+async function main() {
+  if (!supabaseUrl || !serviceKey) {
+    fail('Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (see .env.example)');
+  }
+
+  const supabase = createClient(supabaseUrl, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  let lastId = 0;
+  let updated = 0;
+  let failed = 0;
+  for (;;) {
+    const { data, error } = await supabase
+      .from('memories')
+      .select('id, type, title, src, original, album_photos')
+      .eq('content_hashes', '{}')
+      .gt('id', lastId)
+      .order('id')
+      .limit(BATCH_SIZE);
+    if (error) throw error;
+    if (data.length === 0) break;
+
+    for (const memory of data) {
+      lastId = memory.id;
+      try {
+        const changes = await backfillMemory(supabase, memory);
+        const { error: updateError } = await supabase
+          .from('memories')
+          .update(changes)
+          .eq('id', memory.id);
+        if (updateError) throw updateError;
+        updated += 1;
+        console.log(`Hashed memory ${memory.id}: ${memory.title}`);
+      } catch (error) {
+        // A missing file shouldn't stop the rest; it stays unhashed
+        failed += 1;
+        console.error(`Skipping memory ${memory.id}:`, error.message);
+      }
+    }
+  }
+
+  console.log(`Done: ${updated} hashed, ${failed} skipped`);
+}
+
+main().catch((error) => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
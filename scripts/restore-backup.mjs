@@ -0,0 +1,209 @@
+// Rebuilds an instance from a backup downloaded from the admin dashboard:
+// uploads every stored file, then restores the `memories` rows with their ids
+// and the `profiles` of accounts that exist here. URLs in `src`, `original`,
+// `thumbnail(s)` and `album_photos` are rewritten to point at this instance.
+//
+//   npm run db:restore -- memories-backup-2026-10-19.zip
+//
+// Reads NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY from .env.local,
+// plus NEXT_PUBLIC_STORAGE_BACKEND, NEXT_PUBLIC_STORAGE_BUCKET and
+// LOCAL_MEDIA_DIR to know where the files go. Refuses to restore over
+// existing memories unless RESTORE_ALLOW_EXISTING=1 is set; everything is
+// written with upserts, so that also re-runs an interrupted restore.
+
+import { createWriteStream, openAsBlob } from 'node:fs';
+import { mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { Writable } from 'node:stream';
+import { createClient } from '@supabase/supabase-js';
+import { BlobReader, BlobWriter, TextWriter, ZipReader } from '@zip.js/zip.js';
+
+// Keep in line with src/lib/backup.ts
+const BACKUP_VERSION = 1;
+const BACKUP_MANIFEST = 'backup.json';
+const BACKUP_FILES_FOLDER = 'files/';
+
+const BATCH_SIZE = 100;
+const LOCAL_MEDIA_ROUTE = '/api/media/';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const isLocalBackend = process.env.NEXT_PUBLIC_STORAGE_BACKEND === 'local';
+const bucket = process.env.NEXT_PUBLIC_STORAGE_BUCKET || 'memories';
+const localMediaDir = path.resolve(process.env.LOCAL_MEDIA_DIR || 'media');
+
+// Archives hold no MIME types; Supabase serves files with the one they were
+// uploaded with
+const CONTENT_TYPES = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+};
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+const encodePath = objectPath => objectPath.split('/').map(encodeURIComponent).join('/');
+
+function getPublicUrl(supabase, objectPath) {
+  return isLocalBackend
+    ? `${LOCAL_MEDIA_ROUTE}${encodePath(objectPath)}`
+    : supabase.storage.from(bucket).getPublicUrl(objectPath).data.publicUrl;
+}
+
+// Public URLs issued by the backed-up instance, of either backend, are
+// rewritten for this one. Bare object paths, which is how videos are stored,
+// already resolve against whichever backend is active.
+function createUrlMapper(supabase, manifest) {
+  const markers = [`/storage/v1/object/public/${manifest.storage.bucket}/`, LOCAL_MEDIA_ROUTE];
+
+  return (value) => {
+    if (!value) return value;
+    for (const marker of markers) {
+      const index = value.indexOf(marker);
+      if (index !== -1) {
+        return getPublicUrl(supabase, decodeURIComponent(value.slice(index + marker.length).split('?')[0]));
+      }
+    }
+    return value;
+  };
+}
+
+function remapMemory(memory, mapUrl) {
+  const remapThumbnails = thumbnails => thumbnails?.map(thumbnail => ({ ...thumbnail, src: mapUrl(thumbnail.src) })) ?? thumbnails;
+  const remapFiles = item => ({
+    ...item,
+    src: mapUrl(item.src),
+    original: mapUrl(item.original),
+    thumbnail: mapUrl(item.thumbnail),
+    thumbnails: remapThumbnails(item.thumbnails),
+  });
+
+  return {
+    ...remapFiles(memory),
+    album_photos: memory.album_photos?.map(remapFiles) ?? memory.album_photos,
+  };
+}
+
+async function restoreFile(supabase, entry, objectPath) {
+  if (isLocalBackend) {
+    const filePath = path.resolve(localMediaDir, objectPath);
+    if (!filePath.startsWith(localMediaDir + path.sep)) {
+      throw new Error('Path leaves the media directory');
+    }
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await entry.getData(Writable.toWeb(createWriteStream(filePath)));
+    return;
+  }
+
+  const contentType = CONTENT_TYPES[objectPath.split('.').pop()?.toLowerCase()] || 'application/octet-stream';
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(objectPath, await entry.getData(new BlobWriter(contentType)), { contentType, upsert: true });
+  if (error) throw error;
+}
+
+async function listUserIds(supabase) {
+  const ids = new Set();
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage: 1000 });
+    if (error) throw error;
+    data.users.forEach(user => ids.add(user.id));
+    if (data.users.length < 1000) return ids;
+  }
+}
+
+async function upsertRows(supabase, table, rows) {
+  for (let from = 0; from < rows.length; from += BATCH_SIZE) {
+    const { error } = await supabase
+      .from(table)
+      .upsert(rows.slice(from, from + BATCH_SIZE), { onConflict: 'id' });
+    if (error) throw error;
+  }
+}
+
+async function main() {
+  const archivePath = process.argv[2];
+  if (!archivePath) fail('Usage: npm run db:restore -- <backup.zip>');
+  if (!supabaseUrl || !serviceKey) {
+    fail('Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (see .env.example)');
+  }
+
+  const supabase = createClient(supabaseUrl, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { count, error: countError } = await supabase
+    .from('memories')
+    .select('id', { count: 'exact', head: true });
+  if (countError) throw countError;
+  if (count > 0 && process.env.RESTORE_ALLOW_EXISTING !== '1') {
+    fail(`This instance already has ${count} memories; set RESTORE_ALLOW_EXISTING=1 to restore over them`);
+  }
+
+  const reader = new ZipReader(new BlobReader(await openAsBlob(archivePath)), { useWebWorkers: false });
+  const entries = await reader.getEntries();
+  const manifestEntry = entries.find(entry => entry.filename === BACKUP_MANIFEST);
+  if (!manifestEntry) fail(`${archivePath} is not a backup: ${BACKUP_MANIFEST} is missing`);
+  const manifest = JSON.parse(await manifestEntry.getData(new TextWriter()));
+  if (manifest.version !== BACKUP_VERSION) {
+    fail(`Unsupported backup version ${manifest.version}`);
+  }
+  console.log(
+    `Restoring backup of ${manifest.created_at}: ${manifest.memories.length} memories, ${manifest.files.length} files`,
+  );
+
+  // Files first, so no restored memory points at a file not there yet
+  let restoredFiles = 0;
+  let failedFiles = 0;
+  for (const entry of entries) {
+    if (entry.directory || !entry.filename.startsWith(BACKUP_FILES_FOLDER)) continue;
+    const objectPath = entry.filename.slice(BACKUP_FILES_FOLDER.length);
+    try {
+      await restoreFile(supabase, entry, objectPath);
+      restoredFiles += 1;
+      console.log(`Restored file ${objectPath}`);
+    } catch (error) {
+      // A file that fails shouldn't stop the rest; re-running retries it
+      failedFiles += 1;
+      console.error(`Skipping file ${objectPath}:`, error.message);
+    }
+  }
+  await reader.close();
+
+  const mapUrl = createUrlMapper(supabase, manifest);
+  await upsertRows(supabase, 'memories', manifest.memories.map(memory => remapMemory(memory, mapUrl)));
+  const { error: sequenceError } = await supabase.rpc('sync_memory_id_sequence');
+  if (sequenceError) throw sequenceError;
+
+  // A profile belongs to an account; accounts aren't part of the backup, so
+  // only profiles of users who exist here can be restored
+  const userIds = await listUserIds(supabase);
+  const profiles = manifest.profiles.filter(profile => userIds.has(profile.id));
+  await upsertRows(supabase, 'profiles', profiles);
+  for (const profile of manifest.profiles.filter(({ id }) => !userIds.has(id))) {
+    console.warn(`Skipping profile ${profile.id}${profile.is_admin ? ' (admin)' : ''}: no such user here`);
+  }
+
+  console.log(
+    `Done: ${manifest.memories.length} memories, ${profiles.length} of ${manifest.profiles.length} profiles, `
+      + `${restoredFiles} files restored, ${failedFiles} files skipped`,
+  );
+  if (failedFiles > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error('Restore failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,133 @@
+// Seeds a fresh (local) Supabase instance with an admin account and a few
+// sample memories built from the hero preview images in public/preview.
+//
+//   npm run db:seed
+//
+// Reads NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY from .env.local.
+// Refuses to touch a non-local project unless SEED_ALLOW_REMOTE=1 is set.
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createHash, randomUUID } from 'node:crypto';
+import { createClient } from '@supabase/supabase-js';
+
+const BUCKET = 'memories';
+const PREVIEW_DIR = path.join(process.cwd(), 'public', 'preview');
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const adminEmail = process.env.SEED_ADMIN_EMAIL || 'admin@example.com';
+const adminPassword = process.env.SEED_ADMIN_PASSWORD || 'memories-admin';
+
+const SAMPLE_MEMORIES = [
+  { title: 'Curug', file: 'curug.jpg', date: '2019-07-14T09:00:00Z', tags: ['trip', 'nature'] },
+  { title: 'Horseman', file: 'horseman.jpg', date: '2020-01-03T16:30:00Z', tags: ['trip'] },
+  { title: 'SMP', file: 'smp.jpg', date: '2015-05-20T08:00:00Z', tags: ['school'] },
+  {
+    title: 'Barudak & SMA',
+    files: ['barudak.jpg', 'sma.jpg'],
+    date: '2018-11-10T12:00:00Z',
+    tags: ['friends', 'school'],
+  },
+];
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+async function uploadPreview(supabase, fileName) {
+  const body = await readFile(path.join(PREVIEW_DIR, fileName));
+  const objectPath = `${randomUUID()}${path.extname(fileName)}`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(objectPath, body, { contentType: 'image/jpeg' });
+  if (error) throw error;
+
+  return {
+    src: supabase.storage.from(BUCKET).getPublicUrl(objectPath).data.publicUrl,
+    hash: createHash('sha256').update(body).digest('hex'),
+  };
+}
+
+async function seedAdmin(supabase) {
+  const { data, error } = await supabase.auth.admin.createUser({
+    email: adminEmail,
+    password: adminPassword,
+    email_confirm: true,
+  });
+
+  let userId = data?.user?.id;
+  if (error) {
+    // Already seeded on an earlier run: look the user up instead
+    const { data: list, error: listError } = await supabase.auth.admin.listUsers();
+    if (listError) throw listError;
+    userId = list.users.find(user => user.email === adminEmail)?.id;
+    if (!userId) throw error;
+  }
+
+  const { error: profileError } = await supabase
+    .from('profiles')
+    .upsert({ id: userId, is_admin: true });
+  if (profileError) throw profileError;
+
+  console.log(`Admin ready: ${adminEmail} / ${adminPassword}`);
+}
+
+async function seedMemories(supabase) {
+  const { count, error: countError } = await supabase
+    .from('memories')
+    .select('*', { count: 'exact', head: true });
+  if (countError) throw countError;
+
+  if (count > 0) {
+    console.log(`Skipping sample memories: table already has ${count}`);
+    return;
+  }
+
+  for (const sample of SAMPLE_MEMORIES) {
+    const photos = [];
+    for (const fileName of sample.files || [sample.file]) {
+      photos.push(await uploadPreview(supabase, fileName));
+    }
+
+    const { error } = await supabase.from('memories').insert({
+      title: sample.title,
+      type: 'photo',
+      src: photos[0].src,
+      thumbnail: null,
+      date: sample.date,
+      tags: sample.tags,
+      album_photos: photos.length > 1 ? photos : null,
+      content_hashes: photos.map(photo => photo.hash),
+    });
+    if (error) throw error;
+
+    console.log(`Added memory: ${sample.title}`);
+  }
+}
+
+async function main() {
+  if (!supabaseUrl || !serviceKey) {
+    fail('Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (see .env.example)');
+  }
+
+  const { hostname } = new URL(supabaseUrl);
+  const isLocal = ['localhost', '127.0.0.1', '0.0.0.0', 'host.docker.internal'].includes(hostname);
+  if (!isLocal && process.env.SEED_ALLOW_REMOTE !== '1') {
+    fail(`Refusing to seed remote project ${hostname}; set SEED_ALLOW_REMOTE=1 to override`);
+  }
+
+  const supabase = createClient(supabaseUrl, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  await seedAdmin(supabase);
+  await seedMemories(supabase);
+}
+
+main().catch((error) => {
+  console.error('Seeding failed:', error);
+  process.exit(1);
+});
@@ -1,38 +1,73 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
+import {
+  applyMemoryChange,
+  subscribeToMemories,
+  type DuplicateGroup,
+  type Memory,
+  type MemoryChange,
+  type MemoryId,
+  type MemoryType,
+  type TagCount,
+} from '@/lib/memories';
+import {
+  deleteTags,
+  fetchBackupUrl,
+  fetchDuplicateGroups,
+  fetchMemoryPage,
+  fetchMemoryStats,
+  fetchTags,
+  patchMemory,
+  removeMemory,
+  removeOrphanedFiles,
+  renameTags,
+  replaceThumbnail,
+} from '@/lib/memoriesApi';
+import { getMediaUrl, getPreviewUrl } from '@/lib/mediaUrl';
+import {
+  appendThumbnails,
+  createImageThumbnails,
+  createVideoThumbnails,
+  defaultThumbnailTime,
+} from '@/lib/videoThumbnail';
+import { MAX_TAG_LENGTH } from '@/lib/memoryValidation';
+import { VideoFrame } from '@/components/VideoFrame';
+import { LoadMoreTrigger } from '@/components/LoadMoreTrigger';
+import { NewMemoryBadge } from '@/components/NewMemoryBadge';
 import Image from 'next/image';
-import { ExclamationCircleIcon, TrashIcon } from '@heroicons/react/24/solid';
+import {
+  ArchiveBoxXMarkIcon,
+  ArrowDownTrayIcon,
+  DocumentDuplicateIcon,
+  ExclamationCircleIcon,
+  MapPinIcon,
+  PhotoIcon,
+  TagIcon,
+  TrashIcon,
+  VideoCameraIcon,
+} from '@heroicons/react/24/solid';
+import { format } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 
-interface Media {
-  id: string;
-  title?: string;
-  url?: string;
-  src?: string;
-  thumbnail?: string;
-  created_at: string;
-  type: 'photo' | 'video';
+// Memory paired with the URL the dashboard previews it with
+interface Media extends Memory {
+  url: string | null;
 }
 
-interface RawMemoryData {
-  id: string;
-  title?: string;
-  url?: string;
-  src?: string;
-  thumbnail?: string;
-  created_at: string;
-  type: 'photo' | 'video';
-  [key: string]: unknown;
-}
+// Photos preview their own image, videos their generated thumbnail
+const toMedia = (item: Memory): Media => ({
+  ...item,
+  url: item.type === 'photo' ? item.src : item.thumbnail,
+});
 
 interface DeleteConfirmProps {
   isOpen: boolean;
   onClose: () => void;
   onConfirm: () => void;
-  type: 'photo' | 'video';
+  type: MemoryType;
 }
 
 function DeleteConfirmDialog({ isOpen, onClose, onConfirm, type }: DeleteConfirmProps) {
@@ -84,12 +119,398 @@ function DeleteConfirmDialog({ isOpen, onClose, onConfirm, type }: DeleteConfirm
   );
 }
 
+interface LocationDialogProps {
+  memory: Memory | null;
+  onClose: () => void;
+  onSave: (latitude: number | null, longitude: number | null) => Promise<void>;
+}
+
+function LocationDialog({ memory, onClose, onSave }: LocationDialogProps) {
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setLatitude(memory?.latitude?.toString() ?? '');
+    setLongitude(memory?.longitude?.toString() ?? '');
+  }, [memory]);
+
+  const save = async (lat: number | null, lng: number | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(lat, lng);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  const isValid = latitude !== '' && longitude !== '' &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+  return (
+    <AnimatePresence>
+      {memory && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+          onClick={onClose}
+        >
+          <motion.form
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (isValid) save(lat, lng);
+            }}
+            className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-xl max-w-md w-full"
+          >
+            <div className="flex items-center space-x-3 text-purple-500 mb-4">
+              <MapPinIcon className="w-6 h-6" />
+              <h3 className="text-lg font-semibold">Location of &ldquo;{memory.title}&rdquo;</h3>
+            </div>
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              <label className="text-sm text-gray-600 dark:text-gray-300">
+                Latitude
+                <input
+                  type="number"
+                  step="any"
+                  min={-90}
+                  max={90}
+                  value={latitude}
+                  onChange={(e) => setLatitude(e.target.value)}
+                  className={`mt-1 ${inputClassName}`}
+                  placeholder="-6.9175"
+                />
+              </label>
+              <label className="text-sm text-gray-600 dark:text-gray-300">
+                Longitude
+                <input
+                  type="number"
+                  step="any"
+                  min={-180}
+                  max={180}
+                  value={longitude}
+                  onChange={(e) => setLongitude(e.target.value)}
+                  className={`mt-1 ${inputClassName}`}
+                  placeholder="107.6191"
+                />
+              </label>
+            </div>
+            <div className="flex justify-end space-x-3">
+              {memory.latitude !== null && (
+                <button
+                  type="button"
+                  disabled={isSaving}
+                  onClick={() => save(null, null)}
+                  className="mr-auto px-4 py-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!isValid || isSaving}
+                className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </motion.form>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+interface ThumbnailDialogProps {
+  memory: Memory | null;
+  onClose: () => void;
+  onSave: (form: FormData) => Promise<void>;
+}
+
+// Picks a new thumbnail for a stored video: another frame, or an image
+function ThumbnailDialog({ memory, onClose, onSave }: ThumbnailDialogProps) {
+  const [time, setTime] = useState<number | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [image, setImage] = useState<{ file: File; preview: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTime(null);
+    setDuration(0);
+    setSaveError(null);
+    setImage(null);
+  }, [memory]);
+
+  useEffect(() => () => {
+    if (image) URL.revokeObjectURL(image.preview);
+  }, [image]);
+
+  const videoUrl = memory?.src ? getMediaUrl(memory.src) : '';
+
+  const save = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const form = new FormData();
+      appendThumbnails(form, image
+        ? await createImageThumbnails(image.file)
+        : await createVideoThumbnails(videoUrl, time));
+      await onSave(form);
+      onClose();
+    } catch (error) {
+      console.error('Error saving thumbnail:', error);
+      setSaveError('Failed to save the thumbnail. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {memory && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-xl max-w-lg w-full"
+          >
+            <div className="flex items-center space-x-3 text-purple-500 mb-4">
+              <PhotoIcon className="w-6 h-6" />
+              <h3 className="text-lg font-semibold">Thumbnail of &ldquo;{memory.title}&rdquo;</h3>
+            </div>
+            <div className="relative h-64 rounded-lg overflow-hidden bg-black mb-3">
+              {image ? (
+                <Image src={image.preview} alt={memory.title} fill sizes="512px" className="object-contain" />
+              ) : (
+                <VideoFrame src={videoUrl} time={time} onDuration={setDuration} />
+              )}
+            </div>
+            {image ? (
+              <button
+                type="button"
+                onClick={() => setImage(null)}
+                className="text-sm text-purple-500 hover:underline mb-4"
+              >
+                Use a frame of the video instead
+              </button>
+            ) : (
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={0.1}
+                value={time ?? defaultThumbnailTime(duration)}
+                onChange={(e) => setTime(Number(e.target.value))}
+                disabled={!duration}
+                className="w-full accent-purple-500 mb-4"
+                aria-label="Thumbnail frame"
+              />
+            )}
+            {saveError && <p className="text-sm text-red-500 mb-4">{saveError}</p>}
+            <div className="flex justify-end space-x-3">
+              <label className="mr-auto px-4 py-2 text-purple-500 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-lg transition-colors cursor-pointer">
+                Upload image
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) setImage({ file, preview: URL.createObjectURL(file) });
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={isSaving || (!image && !duration)}
+                onClick={save}
+                className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+interface TagManagerProps {
+  onError: (message: string | null) => void;
+}
+
+// Renames, merges and deletes tags across all memories. Selecting one tag
+// renames it; selecting several merges them under the new name.
+function TagManager({ onError }: TagManagerProps) {
+  const [tags, setTags] = useState<TagCount[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+
+  const loadTags = useCallback(async () => {
+    try {
+      setTags(await fetchTags());
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      onError('Failed to load tags. Please try again later.');
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const toggleTag = (tag: string) => {
+    setSelected(prev => (prev.includes(tag) ? prev.filter(existing => existing !== tag) : [...prev, tag]));
+    setIsConfirmingDelete(false);
+    setResult(null);
+  };
+
+  const applyChange = async (change: () => Promise<number>) => {
+    setIsSaving(true);
+    try {
+      onError(null);
+      const updated = await change();
+      setResult(`Updated ${updated} ${updated === 1 ? 'memory' : 'memories'}.`);
+      setSelected([]);
+      setName('');
+      setIsConfirmingDelete(false);
+      await loadTags();
+    } catch (error) {
+      console.error('Error changing tags:', error);
+      onError('Failed to change tags. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    applyChange(() => renameTags(selected, name.trim()));
+  };
+
+  return (
+    <section>
+      <h2 className="text-2xl font-semibold mb-4">
+        Tags{tags && ` (${tags.length})`}
+      </h2>
+      {tags?.length === 0 && (
+        <p className="text-gray-500 dark:text-gray-400">No tags yet</p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {tags?.map(({ tag, count }) => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => toggleTag(tag)}
+            className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-sm transition-colors ${
+              selected.includes(tag)
+                ? 'bg-purple-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700'
+            }`}
+          >
+            {tag}
+            <span className={selected.includes(tag) ? 'text-purple-200' : 'text-gray-400'}>{count}</span>
+          </button>
+        ))}
+      </div>
+
+      {selected.length > 0 && (
+        <form onSubmit={handleRename} className="flex flex-wrap items-center gap-2 mt-4 p-4 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={selected.length === 1 ? `Rename "${selected[0]}" to...` : `Merge ${selected.length} tags into...`}
+            maxLength={MAX_TAG_LENGTH}
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !name.trim()}
+            className="flex items-center gap-2 bg-purple-500 text-white px-4 py-2 rounded hover:bg-purple-600 disabled:opacity-50"
+          >
+            <TagIcon className="w-5 h-5" />
+            {selected.length === 1 ? 'Rename' : 'Merge'}
+          </button>
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => (isConfirmingDelete
+              ? applyChange(() => deleteTags(selected))
+              : setIsConfirmingDelete(true))}
+            className="flex items-center gap-2 bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600 disabled:opacity-50"
+          >
+            <TrashIcon className="w-5 h-5" />
+            {isConfirmingDelete
+              ? 'Remove from all memories?'
+              : `Delete ${selected.length === 1 ? 'tag' : `${selected.length} tags`}`}
+          </button>
+        </form>
+      )}
+      {result && <p className="text-gray-500 dark:text-gray-400 mt-3">{result}</p>}
+    </section>
+  );
+}
+
 export default function AdminPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [photos, setPhotos] = useState<Media[]>([]);
   const [videos, setVideos] = useState<Media[]>([]);
-  const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; id: string; type: 'photo' | 'video' } | null>(null);
+  // Photos and videos are listed in separate sections, so each pages on its own
+  const [cursors, setCursors] = useState<Record<MemoryType, string | null>>({ photo: null, video: null });
+  const [loadingMore, setLoadingMore] = useState<MemoryType | null>(null);
+  const [counts, setCounts] = useState<Record<MemoryType, number>>({ photo: 0, video: 0 });
+  const [newMemoryIds, setNewMemoryIds] = useState<Set<MemoryId>>(new Set());
+  const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; id: MemoryId; type: MemoryType } | null>(null);
+  const [locationMemory, setLocationMemory] = useState<Media | null>(null);
+  const [thumbnailMemory, setThumbnailMemory] = useState<Media | null>(null);
+  // Null until the admin scans for duplicates
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[] | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  // Paths the last orphan sweep removed; null until one ran
+  const [removedOrphans, setRemovedOrphans] = useState<string[] | null>(null);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
   const router = useRouter();
 
   const checkAdmin = useCallback(async () => {
@@ -113,51 +534,17 @@ export default function AdminPage() {
   const fetchMedia = async () => {
     try {
       setError(null);
-      
-      // Fetch all memories
-      const { data: memoriesData, error: memoriesError } = await supabase
-        .from('memories')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (memoriesError) {
-        console.error('Error fetching memories:', memoriesError);
-        throw memoriesError;
-      }
-      
-      if (memoriesData) {
-        const validPhotos: Media[] = memoriesData.filter((item: RawMemoryData) => {
-          const mediaUrl = item.url || item.src;
-          return item.type === 'photo' && mediaUrl;
-        }).map((item: RawMemoryData): Media => ({
-          id: item.id,
-          title: item.title,
-          url: item.url || item.src,
-          src: item.src,
-          thumbnail: item.thumbnail,
-          created_at: item.created_at,
-          type: item.type
-        }));
-        
-        const validVideos: Media[] = memoriesData.filter((item: RawMemoryData) => {
-          const mediaUrl = item.url || item.thumbnail;
-          return item.type === 'video' && mediaUrl;
-        }).map((item: RawMemoryData): Media => ({
-          id: item.id,
-          title: item.title,
-          url: item.url || item.thumbnail,
-          src: item.src,
-          thumbnail: item.thumbnail,
-          created_at: item.created_at,
-          type: item.type
-        }));
-        
-        setPhotos(validPhotos);
-        setVideos(validVideos);
-      } else {
-        setPhotos([]);
-        setVideos([]);
-      }
+
+      const [photoPage, videoPage, stats] = await Promise.all([
+        fetchMemoryPage({ type: 'photo' }),
+        fetchMemoryPage({ type: 'video' }),
+        fetchMemoryStats(),
+      ]);
+
+      setPhotos(photoPage.memories.map(toMedia).filter(item => item.url));
+      setVideos(videoPage.memories.map(toMedia).filter(item => item.url));
+      setCursors({ photo: photoPage.nextCursor, video: videoPage.nextCursor });
+      setCounts({ photo: stats.photos, video: stats.videos });
     } catch (error) {
       console.error('Error fetching media:', error);
       setError('Failed to load media. Please try again later.');
@@ -166,16 +553,74 @@ export default function AdminPage() {
     }
   };
 
-  const handleDelete = async (id: string, type: 'photo' | 'video') => {
+  const loadMoreMedia = useCallback(async (type: MemoryType) => {
+    const cursor = cursors[type];
+    if (!cursor || loadingMore) return;
+
+    setLoadingMore(type);
     try {
-      setError(null);
-      const { error: deleteError } = await supabase
-        .from('memories')
-        .delete()
-        .eq('id', id)
-        .eq('type', type);
+      const page = await fetchMemoryPage({ type, cursor });
+      const items = page.memories.map(toMedia).filter(item => item.url);
+      if (type === 'photo') {
+        setPhotos(prev => [...prev, ...items]);
+      } else {
+        setVideos(prev => [...prev, ...items]);
+      }
+      setCursors(prev => ({ ...prev, [type]: page.nextCursor }));
+    } catch (error) {
+      console.error('Error loading more media:', error);
+      setError('Failed to load more media. Please try again later.');
+    } finally {
+      setLoadingMore(null);
+    }
+  }, [cursors, loadingMore]);
+
+  const fetchCounts = useCallback(async () => {
+    try {
+      const stats = await fetchMemoryStats();
+      setCounts({ photo: stats.photos, video: stats.videos });
+    } catch (error) {
+      console.error('Error counting media:', error);
+    }
+  }, []);
+
+  // Latest cursors for the realtime handler, which subscribes only once
+  const cursorsRef = useRef(cursors);
+  useEffect(() => {
+    cursorsRef.current = cursors;
+  }, [cursors]);
+
+  // Keep the dashboard in sync with uploads and deletes made elsewhere
+  useEffect(() => {
+    const unsubscribe = subscribeToMemories((change) => {
+      if (change.type === 'DELETE') {
+        setPhotos(prev => applyMemoryChange(prev, change, !!cursorsRef.current.photo));
+        setVideos(prev => applyMemoryChange(prev, change, !!cursorsRef.current.video));
+      } else {
+        const item = toMedia(change.memory);
+        const mediaChange: MemoryChange<Media> = item.url
+          ? { type: change.type, memory: item }
+          : { type: 'DELETE', id: item.id };
+        const setItems = item.type === 'photo' ? setPhotos : setVideos;
+        setItems(prev => applyMemoryChange(prev, mediaChange, !!cursorsRef.current[item.type]));
+
+        if (change.type === 'INSERT') {
+          setNewMemoryIds(prev => new Set(prev).add(item.id));
+        }
+      }
+      fetchCounts();
+    });
+
+    return unsubscribe;
+  }, [fetchCounts]);
 
-      if (deleteError) throw deleteError;
+  const loadMorePhotos = useCallback(() => loadMoreMedia('photo'), [loadMoreMedia]);
+  const loadMoreVideos = useCallback(() => loadMoreMedia('video'), [loadMoreMedia]);
+
+  const handleDelete = async (id: MemoryId, type: MemoryType) => {
+    try {
+      setError(null);
+      await removeMemory(id);
 
       // Update state locally instead of refetching
       if (type === 'photo') {
@@ -183,12 +628,78 @@ export default function AdminPage() {
       } else {
         setVideos(videos.filter(video => video.id !== id));
       }
+      setCounts(prev => ({ ...prev, [type]: Math.max(prev[type] - 1, 0) }));
+      // A group stops being a duplicate once only one memory is left in it
+      setDuplicateGroups(prev => prev && prev
+        .map(group => ({ ...group, memories: group.memories.filter(memory => memory.id !== id) }))
+        .filter(group => group.memories.length > 1));
     } catch (error) {
       console.error('Error deleting media:', error);
       setError('Failed to delete media. Please try again.');
     }
   };
 
+  const handleLocationSave = async (latitude: number | null, longitude: number | null) => {
+    if (!locationMemory) return;
+    try {
+      setError(null);
+      const memory = await patchMemory(locationMemory.id, { latitude, longitude });
+      const item = toMedia(memory);
+      const setItems = item.type === 'photo' ? setPhotos : setVideos;
+      setItems(prev => prev.map(existing => (existing.id === item.id ? item : existing)));
+    } catch (error) {
+      console.error('Error updating location:', error);
+      setError('Failed to update location. Please try again.');
+    }
+  };
+
+  const handleThumbnailSave = async (form: FormData) => {
+    if (!thumbnailMemory) return;
+    setError(null);
+    const item = toMedia(await replaceThumbnail(thumbnailMemory.id, form));
+    setVideos(prev => prev.map(existing => (existing.id === item.id ? item : existing)));
+  };
+
+  const handleScanDuplicates = async () => {
+    setIsScanning(true);
+    try {
+      setError(null);
+      setDuplicateGroups(await fetchDuplicateGroups());
+    } catch (error) {
+      console.error('Error scanning duplicates:', error);
+      setError('Failed to scan for duplicates. Please try again.');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleRemoveOrphans = async () => {
+    setIsSweeping(true);
+    try {
+      setError(null);
+      setRemovedOrphans(await removeOrphanedFiles());
+    } catch (error) {
+      console.error('Error removing orphaned files:', error);
+      setError('Failed to remove orphaned files. Please try again.');
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      setError(null);
+      // The response is an attachment, so the dashboard stays open
+      window.location.href = await fetchBackupUrl();
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      setError('Failed to create backup. Please try again.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     router.push('/');
@@ -205,8 +716,9 @@ export default function AdminPage() {
         exit={{ opacity: 0, scale: 0.9 }}
         transition={{ duration: 0.2 }}
         key={item.id}
-        className="relative group bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden"
+        className={`relative group bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden ${newMemoryIds.has(item.id) ? 'ring-2 ring-purple-500' : ''}`}
       >
+        {newMemoryIds.has(item.id) && <NewMemoryBadge />}
         {item.type === 'photo' ? (
           <div className="relative h-48">
             <Image
@@ -237,6 +749,26 @@ export default function AdminPage() {
         >
           <TrashIcon className="w-5 h-5" />
         </button>
+        <button
+          onClick={() => setLocationMemory(item)}
+          className={`absolute top-2 right-12 p-2 rounded-full transition-opacity duration-200 ${
+            item.latitude !== null
+              ? 'bg-purple-500 text-white hover:bg-purple-600'
+              : 'bg-white/90 text-gray-700 opacity-0 group-hover:opacity-100 hover:bg-white'
+          }`}
+          title={item.latitude !== null ? `${item.latitude.toFixed(4)}, ${item.longitude?.toFixed(4)}` : 'Add location'}
+        >
+          <MapPinIcon className="w-5 h-5" />
+        </button>
+        {item.type === 'video' && (
+          <button
+            onClick={() => setThumbnailMemory(item)}
+            className="absolute top-2 right-[5.5rem] p-2 rounded-full bg-white/90 text-gray-700 opacity-0 group-hover:opacity-100 hover:bg-white transition-opacity duration-200"
+            title="Change thumbnail"
+          >
+            <PhotoIcon className="w-5 h-5" />
+          </button>
+        )}
         {item.title && (
           <div className="absolute bottom-0 left-0 right-0 p-2 bg-black bg-opacity-50">
             <p className="text-white text-sm truncate">{item.title}</p>
@@ -244,7 +776,7 @@ export default function AdminPage() {
         )}
       </motion.div>
     );
-  }, []);
+  }, [newMemoryIds]);
 
   if (isLoading) {
     return (
@@ -270,6 +802,18 @@ export default function AdminPage() {
         type={deleteConfirm?.type || 'photo'}
       />
 
+      <LocationDialog
+        memory={locationMemory}
+        onClose={() => setLocationMemory(null)}
+        onSave={handleLocationSave}
+      />
+
+      <ThumbnailDialog
+        memory={thumbnailMemory}
+        onClose={() => setThumbnailMemory(null)}
+        onSave={handleThumbnailSave}
+      />
+
       <div className="container mx-auto px-4 py-8">
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-3xl font-bold">Admin Dashboard</h1>
@@ -290,7 +834,7 @@ export default function AdminPage() {
 
         <div className="space-y-8">
           <section>
-            <h2 className="text-2xl font-semibold mb-4">Photos ({photos.length})</h2>
+            <h2 className="text-2xl font-semibold mb-4">Photos ({counts.photo})</h2>
             {photos.length === 0 ? (
               <p className="text-gray-500 dark:text-gray-400">No photos available</p>
             ) : (
@@ -300,10 +844,15 @@ export default function AdminPage() {
                 </AnimatePresence>
               </motion.div>
             )}
+            <LoadMoreTrigger
+              hasMore={!!cursors.photo}
+              isLoading={loadingMore === 'photo'}
+              onLoadMore={loadMorePhotos}
+            />
           </section>
 
           <section>
-            <h2 className="text-2xl font-semibold mb-4">Videos ({videos.length})</h2>
+            <h2 className="text-2xl font-semibold mb-4">Videos ({counts.video})</h2>
             {videos.length === 0 ? (
               <p className="text-gray-500 dark:text-gray-400">No videos available</p>
             ) : (
@@ -313,6 +862,98 @@ export default function AdminPage() {
                 </AnimatePresence>
               </motion.div>
             )}
+            <LoadMoreTrigger
+              hasMore={!!cursors.video}
+              isLoading={loadingMore === 'video'}
+              onLoadMore={loadMoreVideos}
+            />
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-semibold">
+                Duplicates{duplicateGroups && ` (${duplicateGroups.length})`}
+              </h2>
+              <button
+                onClick={handleScanDuplicates}
+                disabled={isScanning}
+                className="flex items-center gap-2 bg-purple-500 text-white px-4 py-2 rounded hover:bg-purple-600 disabled:opacity-50"
+              >
+                <DocumentDuplicateIcon className="w-5 h-5" />
+                {isScanning ? 'Scanning...' : 'Scan for duplicates'}
+              </button>
+            </div>
+            {duplicateGroups?.length === 0 && (
+              <p className="text-gray-500 dark:text-gray-400">No duplicate files found</p>
+            )}
+            <div className="space-y-4">
+              {duplicateGroups?.map(group => (
+                <div key={group.hash} className="p-4 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
+                  <p className="text-xs text-gray-500 dark:text-gray-400 font-mono mb-3 truncate">
+                    SHA-256 {group.hash}
+                  </p>
+                  <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+                    {group.memories.map((memory) => {
+                      const url = getPreviewUrl(memory);
+                      return (
+                        <div key={memory.id} className="relative group bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden">
+                          <div className="relative h-28 flex items-center justify-center bg-gradient-to-br from-purple-500 to-pink-500">
+                            {url ? (
+                              <Image src={url} alt={memory.title} fill sizes="200px" className="object-cover" />
+                            ) : (
+                              <VideoCameraIcon className="w-6 h-6 text-white" />
+                            )}
+                          </div>
+                          <button
+                            onClick={() => setDeleteConfirm({ show: true, id: memory.id, type: memory.type })}
+                            className="absolute top-2 right-2 bg-red-500 text-white p-1.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-200 hover:bg-red-600"
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                          <div className="p-2">
+                            <p className="text-sm truncate">{memory.title}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {format(new Date(memory.date), 'MMM d, yyyy')}
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <TagManager onError={setError} />
+
+          <section>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-semibold">Storage</h2>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleBackup}
+                  disabled={isBackingUp}
+                  className="flex items-center gap-2 bg-purple-500 text-white px-4 py-2 rounded hover:bg-purple-600 disabled:opacity-50"
+                >
+                  <ArrowDownTrayIcon className="w-5 h-5" />
+                  {isBackingUp ? 'Backing up...' : 'Download backup'}
+                </button>
+                <button
+                  onClick={handleRemoveOrphans}
+                  disabled={isSweeping}
+                  className="flex items-center gap-2 bg-purple-500 text-white px-4 py-2 rounded hover:bg-purple-600 disabled:opacity-50"
+                >
+                  <ArchiveBoxXMarkIcon className="w-5 h-5" />
+                  {isSweeping ? 'Cleaning up...' : 'Remove orphaned files'}
+                </button>
+              </div>
+            </div>
+            <p className="text-gray-500 dark:text-gray-400">
+              {removedOrphans === null
+                ? 'A backup holds every memory, profile and stored file; restore it with npm run db:restore. Cleaning up removes uploaded files that no memory points at and that are more than a day old.'
+                : `Removed ${removedOrphans.length} orphaned file${removedOrphans.length === 1 ? '' : 's'}.`}
+            </p>
           </section>
         </div>
       </div>
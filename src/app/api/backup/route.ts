@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { isAdminRequest } from '@/lib/supabaseServer';
+import { createBackupManifest, createBackupStream, createBackupToken, verifyBackupToken } from '@/lib/backup';
+import { getContentDisposition } from '@/lib/memoryDownload';
+import { getStorage } from '@/lib/storage';
+
+// Issues a short-lived link to GET the backup from, so the browser can save
+// it straight to disk
+export async function POST(request: Request) {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Not authorized as admin' }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({ url: `/api/backup?token=${encodeURIComponent(createBackupToken())}` });
+  } catch (error) {
+    console.error('Error issuing backup link:', error);
+    return NextResponse.json({ error: 'Failed to create backup' }, { status: 500 });
+  }
+}
+
+// Streams a full backup: every memory and profile row plus every stored
+// file. `npm run db:restore` rebuilds an instance from it. Takes the admin's
+// access token or a link from POST.
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+  if (!(token ? verifyBackupToken(token) : await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Not authorized as admin' }, { status: 403 });
+  }
+
+  try {
+    const storage = getStorage();
+    const manifest = await createBackupManifest(undefined, storage);
+
+    return new NextResponse(createBackupStream(manifest, storage), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': getContentDisposition(`memories-backup-${format(new Date(), 'yyyy-MM-dd')}.zip`),
+      },
+    });
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    return NextResponse.json({ error: 'Failed to create backup' }, { status: 500 });
+  }
+}
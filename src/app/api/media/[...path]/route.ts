@@ -0,0 +1,87 @@
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { NextResponse } from 'next/server';
+import { STORAGE_BACKEND } from '@/lib/mediaUrl';
+import { resolveLocalPath } from '@/lib/storage/localStorage';
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.m4v': 'video/x-m4v',
+};
+
+// Parses a single `bytes=start-end` range; multi-range requests get the whole file
+function parseRange(header: string | null, size: number): { start: number; end: number } | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const start = match[1] ? Number(match[1]) : Math.max(size - Number(match[2]), 0);
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return { start, end };
+}
+
+// Serves files written by the local-disk storage backend, with range support
+// so videos can seek
+export async function GET(request: Request, { params }: RouteContext) {
+  if (STORAGE_BACKEND !== 'local') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const objectPath = (await params).path.join('/');
+  const filePath = resolveLocalPath(objectPath);
+  if (!filePath) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  let size: number;
+  try {
+    const fileStat = await stat(filePath);
+    if (!fileStat.isFile()) throw new Error('Not a file');
+    size = fileStat.size;
+  } catch {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+    'Accept-Ranges': 'bytes',
+    // Object names are random UUIDs and never rewritten
+    'Cache-Control': 'public, max-age=31536000, immutable',
+  };
+
+  const range = parseRange(request.headers.get('range'), size);
+  if (range && (range.start >= size || range.start > range.end)) {
+    return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  if (size === 0) {
+    return new NextResponse(null, { status: 200, headers: { ...headers, 'Content-Length': '0' } });
+  }
+
+  const { start, end } = range || { start: 0, end: size - 1 };
+  const stream = Readable.toWeb(createReadStream(filePath, { start, end })) as ReadableStream<Uint8Array>;
+
+  return new NextResponse(stream, {
+    status: range ? 206 : 200,
+    headers: {
+      ...headers,
+      'Content-Length': String(end - start + 1),
+      ...(range ? { 'Content-Range': `bytes ${start}-${end}/${size}` } : {}),
+    },
+  });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabaseServer';
+import { getMemory } from '@/lib/memories';
+import { parseMemoryId } from '@/lib/memoryValidation';
+import {
+  createZipStream,
+  getAlbumItemDownload,
+  getContentDisposition,
+  getDownloadBaseName,
+  getMemoryDownloads,
+} from '@/lib/memoryDownload';
+import { getStorage } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Downloads a memory's original file, or with `?item=<index>` one item of an
+// album. An album as a whole comes as a ZIP of all its items.
+export async function GET(request: Request, { params }: RouteContext) {
+  const id = parseMemoryId((await params).id);
+  if (id === null) {
+    return NextResponse.json({ error: 'Invalid memory id' }, { status: 400 });
+  }
+
+  const itemParam = new URL(request.url).searchParams.get('item');
+  const item = itemParam === null ? null : Number(itemParam);
+  if (item !== null && (!Number.isInteger(item) || item < 0)) {
+    return NextResponse.json({ error: 'item must be the index of an album item' }, { status: 400 });
+  }
+
+  try {
+    const memory = await getMemory(id, supabaseServer);
+    if (!memory) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    const storage = getStorage();
+    const itemFile = item === null ? null : getAlbumItemDownload(memory, item, storage);
+    if (item !== null && !itemFile) {
+      return NextResponse.json({ error: 'Album item not found' }, { status: 404 });
+    }
+
+    const files = itemFile ? [itemFile] : getMemoryDownloads(memory, '', storage);
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'Memory has no file' }, { status: 404 });
+    }
+    if (files.length === 1) {
+      return new NextResponse(await storage.read(files[0].path), {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Disposition': getContentDisposition(files[0].name),
+        },
+      });
+    }
+
+    return new NextResponse(createZipStream(files, storage), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': getContentDisposition(`${getDownloadBaseName(memory)}.zip`),
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading memory:', error);
+    return NextResponse.json({ error: 'Failed to download memory' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest, supabaseServer } from '@/lib/supabaseServer';
+import { deleteMemory, getMemory, updateMemory } from '@/lib/memories';
+import { parseMemoryChanges, parseMemoryId } from '@/lib/memoryValidation';
+import { getMemoryStoragePaths, getStorage } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const id = parseMemoryId((await params).id);
+  if (id === null) {
+    return NextResponse.json({ error: 'Invalid memory id' }, { status: 400 });
+  }
+
+  try {
+    const memory = await getMemory(id, supabaseServer);
+    if (!memory) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+    return NextResponse.json({ memory });
+  } catch (error) {
+    console.error('Error fetching memory:', error);
+    return NextResponse.json({ error: 'Failed to fetch memory' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const id = parseMemoryId((await params).id);
+  if (id === null) {
+    return NextResponse.json({ error: 'Invalid memory id' }, { status: 400 });
+  }
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Not authorized as admin' }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+
+  const changes = parseMemoryChanges(body);
+  if (changes.error !== undefined) {
+    return NextResponse.json({ error: changes.error }, { status: 400 });
+  }
+
+  try {
+    if (!(await getMemory(id, supabaseServer))) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+    const memory = await updateMemory(id, changes.value, supabaseServer);
+    return NextResponse.json({ memory });
+  } catch (error) {
+    console.error('Error updating memory:', error);
+    return NextResponse.json({ error: 'Failed to update memory' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const id = parseMemoryId((await params).id);
+  if (id === null) {
+    return NextResponse.json({ error: 'Invalid memory id' }, { status: 400 });
+  }
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Not authorized as admin' }, { status: 403 });
+  }
+
+  try {
+    const memory = await getMemory(id, supabaseServer);
+    if (!memory) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    // Remove the row first: a failed storage cleanup then only leaves
+    // unreferenced files behind rather than a memory with broken media
+    await deleteMemory(id, supabaseServer);
+    await getStorage().remove(getMemoryStoragePaths(memory)).catch((storageError) => {
+      console.error('Error removing memory files:', storageError);
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting memory:', error);
+    return NextResponse.json({ error: 'Failed to delete memory' }, { status: 500 });
+  }
+}
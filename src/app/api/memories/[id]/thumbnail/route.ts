@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest, supabaseServer } from '@/lib/supabaseServer';
+import { getMemory, updateMemory } from '@/lib/memories';
+import { parseMemoryId, parseThumbnails } from '@/lib/memoryValidation';
+import { discardUnreferencedPaths, getStorage, uploadThumbnails, type StoredFile } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Replaces a video's thumbnail with a new frame or custom image, sent in the
+// same `thumbnail` / `thumbnail_size` fields as when creating a memory
+export async function PUT(request: Request, { params }: RouteContext) {
+  const id = parseMemoryId((await params).id);
+  if (id === null) {
+    return NextResponse.json({ error: 'Invalid memory id' }, { status: 400 });
+  }
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Not authorized as admin' }, { status: 403 });
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be multipart/form-data' }, { status: 400 });
+  }
+
+  const thumbnails = parseThumbnails(form);
+  if (thumbnails.error !== undefined) {
+    return NextResponse.json({ error: thumbnails.error }, { status: 400 });
+  }
+  if (thumbnails.value.length === 0) {
+    return NextResponse.json({ error: 'At least one thumbnail is required' }, { status: 400 });
+  }
+
+  const storage = getStorage();
+  const stored: StoredFile[] = [];
+  try {
+    const existing = await getMemory(id, supabaseServer);
+    if (!existing) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+    if (existing.type !== 'video') {
+      return NextResponse.json({ error: 'Only videos have a thumbnail' }, { status: 400 });
+    }
+
+    const uploaded = await uploadThumbnails(thumbnails.value, stored, storage);
+    // An album is a video when its cover is, and shows the cover's thumbnail;
+    // the cover item gets the new one too
+    const [cover, ...items] = existing.album_photos || [];
+    const memory = await updateMemory(id, {
+      ...uploaded,
+      ...(cover ? { album_photos: [{ ...cover, ...uploaded }, ...items] } : {}),
+    }, supabaseServer);
+
+    // The old files go only once the row points at the new ones, and only
+    // those nothing else still points at
+    const oldPaths = [
+      existing.thumbnail,
+      ...(existing.thumbnails || []).map(({ src }) => src),
+      cover?.thumbnail,
+      ...(cover?.thumbnails || []).map(({ src }) => src),
+    ]
+      .filter((value): value is string => !!value)
+      .map(value => storage.toPath(value));
+    await discardUnreferencedPaths(Array.from(new Set(oldPaths)), storage).catch((storageError) => {
+      console.error('Error removing old thumbnails:', storageError);
+    });
+
+    return NextResponse.json({ memory });
+  } catch (error) {
+    console.error('Error replacing thumbnail:', error);
+    await storage.remove(stored.map(({ path }) => path)).catch((cleanupError) => {
+      console.error('Error removing uploaded files:', cleanupError);
+    });
+    return NextResponse.json({ error: 'Failed to replace thumbnail' }, { status: 500 });
+  }
+}
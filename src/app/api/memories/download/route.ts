@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { supabaseServer } from '@/lib/supabaseServer';
+import { listMemoriesById } from '@/lib/memories';
+import { parseDownloadIds } from '@/lib/memoryValidation';
+import { createZipStream, getContentDisposition, getDownloadBaseName, getMemoryDownloads } from '@/lib/memoryDownload';
+import { getStorage } from '@/lib/storage';
+
+// Streams a ZIP of the memories picked in the grid (`?id=1&id=2`), newest
+// first. Albums get a folder of their own.
+export async function GET(request: Request) {
+  const ids = parseDownloadIds(new URL(request.url).searchParams);
+  if (ids.error !== undefined) {
+    return NextResponse.json({ error: ids.error }, { status: 400 });
+  }
+
+  try {
+    const memories = await listMemoriesById(ids.value, supabaseServer);
+    if (memories.length === 0) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    const storage = getStorage();
+    const files = memories.flatMap(memory => getMemoryDownloads(
+      memory,
+      memory.album_photos?.length ? getDownloadBaseName(memory) : '',
+      storage,
+    ));
+
+    return new NextResponse(createZipStream(files, storage), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': getContentDisposition(`Kenangan ${format(new Date(), 'yyyy-MM-dd')}.zip`),
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading memories:', error);
+    return NextResponse.json({ error: 'Failed to download memories' }, { status: 500 });
+  }
+}
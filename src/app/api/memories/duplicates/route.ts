@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest, supabaseServer } from '@/lib/supabaseServer';
+import { listDuplicateGroups } from '@/lib/memories';
+
+export async function GET(request: Request) {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Not authorized as admin' }, { status: 403 });
+  }
+
+  try {
+    const groups = await listDuplicateGroups(supabaseServer);
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error('Error listing duplicates:', error);
+    return NextResponse.json({ error: 'Failed to list duplicates' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/supabaseServer';
+import { removeOrphanedObjects } from '@/lib/storage';
+
+// Sweeps storage for files no memory points at, e.g. uploads abandoned when
+// the browser closed before their memory was created
+export async function DELETE(request: Request) {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Not authorized as admin' }, { status: 403 });
+  }
+
+  try {
+    const removed = await removeOrphanedObjects();
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error('Error removing orphaned files:', error);
+    return NextResponse.json({ error: 'Failed to remove orphaned files' }, { status: 500 });
+  }
+}
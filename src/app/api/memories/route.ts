@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabaseServer';
+import { createMemory, listMemoryPage, listReferencedObjectPaths, type AlbumPhoto, type NewMemory } from '@/lib/memories';
+import { parseListFilters, parseNewMemoryForm } from '@/lib/memoryValidation';
+import { createFileName, getStorage, uploadThumbnails, type StoredFile } from '@/lib/storage';
+
+export async function GET(request: Request) {
+  const filters = parseListFilters(new URL(request.url).searchParams);
+  if (filters.error !== undefined) {
+    return NextResponse.json({ error: filters.error }, { status: 400 });
+  }
+
+  try {
+    const page = await listMemoryPage(filters.value, supabaseServer);
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error fetching memories:', error);
+    return NextResponse.json({ error: 'Failed to fetch memories' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be multipart/form-data' }, { status: 400 });
+  }
+
+  const upload = parseNewMemoryForm(form);
+  if (upload.error !== undefined) {
+    return NextResponse.json({ error: upload.error }, { status: 400 });
+  }
+
+  const {
+    type, title, description, date, datePrecision, tags, latitude, longitude, width, height, codec,
+    files, uploads, originals, hashes, captions, items,
+  } = upload.value;
+  // Objects the client uploaded itself; another memory's files can't be reused
+  const clientPaths = [...uploads, ...originals.filter((path): path is string => !!path)];
+  if (new Set(clientPaths).size !== clientPaths.length) {
+    return NextResponse.json({ error: 'Each upload may only be used once' }, { status: 400 });
+  }
+  try {
+    if ((await listReferencedObjectPaths(clientPaths, supabaseServer)).size > 0) {
+      return NextResponse.json({ error: 'Upload already belongs to a memory' }, { status: 409 });
+    }
+  } catch (error) {
+    console.error('Error checking uploads:', error);
+    return NextResponse.json({ error: 'Failed to create memory' }, { status: 500 });
+  }
+
+  const storage = getStorage();
+  const stored: StoredFile[] = uploads.map(path => ({ path, publicUrl: storage.getPublicUrl(path) }));
+  const originalUrls = originals.map(path => (path ? storage.getPublicUrl(path) : null));
+
+  try {
+    for (const file of files) {
+      stored.push(await storage.upload(createFileName(file.name), file));
+    }
+
+    // Thumbnails are added to `stored` as they go up, so walk the files alone
+    const mediaFiles = [...stored];
+    const albumItems: AlbumPhoto[] = [];
+    for (const [index, { path, publicUrl }] of mediaFiles.entries()) {
+      const item = items[index];
+      const shared = {
+        ...(hashes[index] ? { hash: hashes[index] } : {}),
+        ...(captions[index] ? { caption: captions[index] } : {}),
+      };
+      albumItems.push(item.type === 'photo'
+        ? { type: 'photo', src: publicUrl, ...(originalUrls[index] ? { original: originalUrls[index] } : {}), ...shared }
+        // Videos keep the bare object path in `src`; the viewer resolves it to a URL
+        : { type: 'video', src: path, ...await uploadThumbnails(item.thumbnails, stored, storage), duration: item.duration, ...shared });
+    }
+
+    // The memory shows its first file, the cover; albums list every file
+    const [cover] = albumItems;
+    const memoryData: NewMemory = {
+      title,
+      description,
+      type,
+      src: cover.src,
+      original: cover.original ?? null,
+      thumbnail: cover.thumbnail ?? null,
+      thumbnails: cover.thumbnails ?? null,
+      duration: cover.duration ?? null,
+      date,
+      date_precision: datePrecision,
+      tags,
+      album_photos: albumItems.length > 1 ? albumItems : null,
+      latitude,
+      longitude,
+      width,
+      height,
+      codec,
+      content_hashes: hashes,
+    };
+
+    const memory = await createMemory(memoryData, supabaseServer);
+    return NextResponse.json({ memory }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating memory:', error);
+    // Don't leave what this request stored behind without a row pointing at
+    // it. The client's own uploads are left to the client, which can prove
+    // they are its own, and to the orphan sweep.
+    const paths = stored.slice(uploads.length).map(({ path }) => path);
+    await storage.remove(paths).catch((cleanupError) => {
+      console.error('Error removing uploaded files:', cleanupError);
+    });
+    return NextResponse.json({ error: 'Failed to create memory' }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabaseServer';
+import { getMemoryStats } from '@/lib/memories';
+
+export async function GET() {
+  try {
+    const stats = await getMemoryStats(supabaseServer);
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error('Error counting memories:', error);
+    return NextResponse.json({ error: 'Failed to count memories' }, { status: 500 });
+  }
+}
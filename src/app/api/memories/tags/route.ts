@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest, supabaseServer } from '@/lib/supabaseServer';
+import { listTags, replaceTags } from '@/lib/memories';
+import { parseTagChange } from '@/lib/memoryValidation';
+
+// Tags in use, for autocomplete; public like the gallery itself
+export async function GET() {
+  try {
+    const tags = await listTags(supabaseServer);
+    return NextResponse.json({ tags });
+  } catch (error) {
+    console.error('Error listing tags:', error);
+    return NextResponse.json({ error: 'Failed to list tags' }, { status: 500 });
+  }
+}
+
+// Renames `tags` to `to` on every memory; several tags are merged into one
+export async function PATCH(request: Request) {
+  return changeTags(request, true);
+}
+
+// Removes `tags` from every memory
+export async function DELETE(request: Request) {
+  return changeTags(request, false);
+}
+
+async function changeTags(request: Request, rename: boolean) {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Not authorized as admin' }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+
+  const change = parseTagChange(body, { rename });
+  if (change.error !== undefined) {
+    return NextResponse.json({ error: change.error }, { status: 400 });
+  }
+
+  try {
+    const updated = await replaceTags(change.value.tags, change.value.to, supabaseServer);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error('Error changing tags:', error);
+    return NextResponse.json({ error: 'Failed to change tags' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { STORAGE_BACKEND } from '@/lib/mediaUrl';
+import {
+  appendLocalUpload,
+  getLocalUpload,
+  removeLocalUpload,
+  TUS_HEADERS,
+  type LocalUpload,
+} from '@/lib/storage/localUploads';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const offsetHeaders = (upload: LocalUpload) => ({
+  ...TUS_HEADERS,
+  'Upload-Offset': String(upload.offset),
+  'Upload-Length': String(upload.length),
+  'Cache-Control': 'no-store',
+});
+
+async function findUpload({ params }: RouteContext): Promise<LocalUpload | null> {
+  if (STORAGE_BACKEND !== 'local') return null;
+  return getLocalUpload((await params).id);
+}
+
+// How much of the upload the server has, so the client knows where to resume
+export async function HEAD(_request: Request, context: RouteContext) {
+  const upload = await findUpload(context);
+  if (!upload) {
+    return new NextResponse(null, { status: 404, headers: TUS_HEADERS });
+  }
+  return new NextResponse(null, { status: 200, headers: offsetHeaders(upload) });
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const upload = await findUpload(context);
+  if (!upload) {
+    return NextResponse.json({ error: 'Upload not found' }, { status: 404, headers: TUS_HEADERS });
+  }
+  if (request.headers.get('content-type') !== 'application/offset+octet-stream') {
+    return NextResponse.json(
+      { error: 'Content-Type must be application/offset+octet-stream' },
+      { status: 415, headers: TUS_HEADERS },
+    );
+  }
+  if (Number(request.headers.get('upload-offset')) !== upload.offset) {
+    return NextResponse.json({ error: 'Upload-Offset does not match' }, { status: 409, headers: offsetHeaders(upload) });
+  }
+  if (!request.body) {
+    return new NextResponse(null, { status: 204, headers: offsetHeaders(upload) });
+  }
+
+  try {
+    const updated = await appendLocalUpload(upload, request.body);
+    return new NextResponse(null, { status: 204, headers: offsetHeaders(updated) });
+  } catch (error) {
+    console.error('Error writing upload chunk:', error);
+    return NextResponse.json({ error: 'Failed to write upload' }, { status: 500, headers: TUS_HEADERS });
+  }
+}
+
+// tus termination: drops a staged upload that will not be finished
+export async function DELETE(_request: Request, context: RouteContext) {
+  const upload = await findUpload(context);
+  if (!upload) {
+    return new NextResponse(null, { status: 404, headers: TUS_HEADERS });
+  }
+  await removeLocalUpload(upload.id);
+  return new NextResponse(null, { status: 204, headers: TUS_HEADERS });
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { LOCAL_UPLOAD_ROUTE, MAX_UPLOAD_SIZE, STORAGE_BACKEND } from '@/lib/mediaUrl';
+import { parseDiscardedUploads } from '@/lib/memoryValidation';
+import { discardUnreferencedPaths, isObjectName } from '@/lib/storage';
+import { createLocalUpload, parseUploadMetadata, TUS_HEADERS } from '@/lib/storage/localUploads';
+import { verifyUploadToken } from '@/lib/storage/uploadTokens';
+
+// tus creation endpoint for the local-disk backend; Supabase has its own at
+// /storage/v1/upload/resumable
+export async function POST(request: Request) {
+  if (STORAGE_BACKEND !== 'local') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const length = Number(request.headers.get('upload-length'));
+  if (!request.headers.get('upload-length') || !Number.isInteger(length) || length < 0) {
+    return NextResponse.json({ error: 'Upload-Length is required' }, { status: 400, headers: TUS_HEADERS });
+  }
+  if (length > MAX_UPLOAD_SIZE) {
+    return NextResponse.json({ error: 'File is too large' }, { status: 413, headers: TUS_HEADERS });
+  }
+
+  const { objectName, contentType } = parseUploadMetadata(request.headers.get('upload-metadata'));
+  if (!objectName || !isObjectName(objectName)) {
+    return NextResponse.json({ error: 'Upload-Metadata needs a valid objectName' }, { status: 400, headers: TUS_HEADERS });
+  }
+
+  try {
+    const upload = await createLocalUpload({
+      length,
+      objectName,
+      contentType: contentType || 'application/octet-stream',
+    });
+    return new NextResponse(null, {
+      status: 201,
+      headers: { ...TUS_HEADERS, Location: `${LOCAL_UPLOAD_ROUTE}/${upload.id}` },
+    });
+  } catch (error) {
+    console.error('Error creating upload:', error);
+    return NextResponse.json({ error: 'Failed to create upload' }, { status: 500, headers: TUS_HEADERS });
+  }
+}
+
+// Rolls back finished uploads whose memory was never created, on either
+// backend. Each needs the token issued with its name, so clients can only
+// discard their own; objects a memory points at are never touched.
+export async function DELETE(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+
+  const uploads = parseDiscardedUploads(body);
+  if (uploads.error !== undefined) {
+    return NextResponse.json({ error: uploads.error }, { status: 400 });
+  }
+  if (!uploads.value.every(({ path, token }) => verifyUploadToken(path, token))) {
+    return NextResponse.json({ error: 'Invalid or expired upload token' }, { status: 403 });
+  }
+
+  try {
+    const removed = await discardUnreferencedPaths(Array.from(new Set(uploads.value.map(({ path }) => path))));
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error('Error discarding uploads:', error);
+    return NextResponse.json({ error: 'Failed to discard uploads' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { parseUploadName } from '@/lib/memoryValidation';
+import { issueUpload } from '@/lib/storage/uploadTokens';
+
+// Hands out the object name a file is uploaded under, with a token that lets
+// the same client discard the upload if its memory is never created
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+
+  const name = parseUploadName(body);
+  if (name.error !== undefined) {
+    return NextResponse.json({ error: name.error }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(issueUpload(name.value));
+  } catch (error) {
+    console.error('Error issuing upload:', error);
+    return NextResponse.json({ error: 'Failed to issue upload' }, { status: 500 });
+  }
+}
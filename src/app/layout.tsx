@@ -11,6 +11,8 @@ const playfair = Playfair_Display({
 });
 
 export const metadata: Metadata = {
+  // Resolves the relative Open Graph image URLs set by the pages
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"),
   title: "Mémoire - Capture Your Precious Moments",
   description: "A place to store and share your precious memories",
 };
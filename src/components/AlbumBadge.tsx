@@ -0,0 +1,28 @@
+import { PhotoIcon, Square2StackIcon, VideoCameraIcon } from '@heroicons/react/24/solid';
+import { countAlbumItems, type AlbumPhoto } from '@/lib/memories';
+
+// Corner badge of an album card: the photo and video count, or just the
+// total for albums of photos only
+export function AlbumBadge({ items }: { items: AlbumPhoto[] }) {
+  const counts = countAlbumItems(items);
+
+  return (
+    <div className="absolute top-2 right-2 flex items-center gap-1 px-2 py-1 bg-black/60 rounded-full z-10">
+      <Square2StackIcon className="w-4 h-4 text-white" />
+      {counts.video === 0 ? (
+        <span className="text-xs text-white font-medium">{items.length}</span>
+      ) : (
+        <>
+          {counts.photo > 0 && (
+            <>
+              <span className="text-xs text-white font-medium">{counts.photo}</span>
+              <PhotoIcon className="w-3.5 h-3.5 text-white" aria-label="foto" />
+            </>
+          )}
+          <span className="text-xs text-white font-medium">{counts.video}</span>
+          <VideoCameraIcon className="w-3.5 h-3.5 text-white" aria-label="video" />
+        </>
+      )}
+    </div>
+  );
+}
@@ -4,14 +4,15 @@ import { useState, useEffect } from 'react';
 import { TrashIcon } from '@heroicons/react/24/outline';
 import { motion } from 'framer-motion';
 import { supabase } from '@/lib/supabase';
+import type { MemoryId } from '@/lib/memories';
+import { removeMemory } from '@/lib/memoriesApi';
 
 interface DeleteButtonProps {
-  memoryId: number;
-  filePath: string;
+  memoryId: MemoryId;
   onDelete: () => void;
 }
 
-export function DeleteButton({ memoryId, filePath, onDelete }: DeleteButtonProps) {
+export function DeleteButton({ memoryId, onDelete }: DeleteButtonProps) {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isAdmin, setIsAdmin] = useState(false);
 
@@ -38,20 +39,8 @@ export function DeleteButton({ memoryId, filePath, onDelete }: DeleteButtonProps
 
     setIsDeleting(true);
     try {
-      // Delete file from storage
-      const { error: storageError } = await supabase.storage
-        .from('memories')
-        .remove([filePath]);
-
-      if (storageError) throw storageError;
-
-      // Delete record from database
-      const { error: dbError } = await supabase
-        .from('memories')
-        .delete()
-        .eq('id', memoryId);
-
-      if (dbError) throw dbError;
+      // The API removes the record together with its files in storage
+      await removeMemory(memoryId);
 
       onDelete();
     } catch (error) {
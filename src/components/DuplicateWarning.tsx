@@ -0,0 +1,102 @@
+'use client';
+
+import Image from 'next/image';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ExclamationTriangleIcon, VideoCameraIcon } from '@heroicons/react/24/solid';
+import type { Memory } from '@/lib/memories';
+import { getPreviewUrl } from '@/lib/mediaUrl';
+
+export interface DuplicateFile {
+  id: string;
+  name: string;
+  duplicates: Memory[];
+}
+
+interface DuplicateWarningProps {
+  files: DuplicateFile[];
+  onSkip: (ids: string[]) => void;
+  onKeep: (ids: string[]) => void;
+}
+
+// Lists picked files that are byte-for-byte copies of memories already in
+// the gallery, so the uploader can skip them or upload them anyway
+export function DuplicateWarning({ files, onSkip, onKeep }: DuplicateWarningProps) {
+  if (files.length === 0) return null;
+
+  const ids = files.map(({ id }) => id);
+  const buttonClassName = 'px-3 py-1.5 rounded-lg text-xs font-medium transition-colors';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl space-y-3"
+    >
+      <div className="flex items-start gap-2">
+        <ExclamationTriangleIcon className="w-5 h-5 text-amber-500 flex-shrink-0" />
+        <p className="text-sm text-amber-700 dark:text-amber-300">
+          {files.length} file sudah pernah diupload. Lewati atau tetap upload?
+        </p>
+      </div>
+
+      <ul className="space-y-2">
+        {files.map(({ id, name, duplicates }) => {
+          const [existing] = duplicates;
+          const url = getPreviewUrl(existing, 96);
+          return (
+            <li key={id} className="flex items-center gap-3 p-2 bg-white dark:bg-gray-800 rounded-lg">
+              <div className="relative w-12 h-12 flex-shrink-0 rounded-md overflow-hidden bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+                {url ? (
+                  <Image src={url} alt={existing.title} fill sizes="48px" className="object-cover" />
+                ) : (
+                  <VideoCameraIcon className="w-5 h-5 text-white" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 dark:text-white truncate">{name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  Sudah ada: {existing.title} • {format(new Date(existing.date), 'd MMM yyyy')}
+                  {duplicates.length > 1 && ` (+${duplicates.length - 1} lainnya)`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onSkip([id])}
+                className={`${buttonClassName} bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 hover:bg-amber-200 dark:hover:bg-amber-900/60`}
+              >
+                Lewati
+              </button>
+              <button
+                type="button"
+                onClick={() => onKeep([id])}
+                className={`${buttonClassName} text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700`}
+              >
+                Tetap upload
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {files.length > 1 && (
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => onSkip(ids)}
+            className={`${buttonClassName} bg-amber-500 text-white hover:bg-amber-600`}
+          >
+            Lewati semua
+          </button>
+          <button
+            type="button"
+            onClick={() => onKeep(ids)}
+            className={`${buttonClassName} text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700`}
+          >
+            Tetap upload semua
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { ArchiveBoxArrowDownIcon, MapPinIcon, Square2StackIcon } from '@heroicons/react/24/solid';
+import type { ImportPlan } from '@/lib/archiveImport';
+
+interface ImportPreviewProps {
+  plan: ImportPlan;
+  isExtracting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Dry run of an archive import: the albums and single memories it would
+// create and what it leaves out, before anything is unpacked or uploaded
+export function ImportPreview({ plan, isExtracting, onConfirm, onCancel }: ImportPreviewProps) {
+  const { albums, singles, skipped, isTakeout } = plan;
+  const items = [...albums.flatMap(({ items: albumItems }) => albumItems), ...singles];
+  const withLocation = items.filter(({ metadata }) => metadata.location).length;
+  const totalSize = items.reduce((acc, { size }) => acc + size, 0);
+  const buttonClassName = 'px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-4 bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-xl space-y-3"
+    >
+      <div className="flex items-start gap-2">
+        <ArchiveBoxArrowDownIcon className="w-5 h-5 text-purple-500 flex-shrink-0" />
+        <div className="text-sm text-purple-700 dark:text-purple-300">
+          <p className="font-medium">
+            {isTakeout ? 'Ekspor Google Takeout' : 'Arsip ZIP'}: {items.length} file ({formatSize(totalSize)})
+          </p>
+          <p className="text-xs mt-0.5">
+            {albums.length} album dan {singles.length} kenangan tunggal
+            {withLocation > 0 && ` • ${withLocation} dengan lokasi`}
+          </p>
+        </div>
+      </div>
+
+      {albums.length > 0 && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto" data-lenis-prevent>
+          {albums.map(({ folder, title, items: albumItems }) => (
+            <li key={folder} className="flex items-center gap-2 px-2 py-1.5 bg-white dark:bg-gray-800 rounded-lg text-sm">
+              <Square2StackIcon className="w-4 h-4 text-purple-500 flex-shrink-0" />
+              <span className="flex-1 min-w-0 truncate text-gray-900 dark:text-white">{title}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">{albumItems.length} file</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {skipped.length > 0 && (
+        <details className="text-xs text-gray-600 dark:text-gray-400">
+          <summary className="cursor-pointer">{skipped.length} file dilewati</summary>
+          <ul className="mt-1 space-y-0.5 max-h-32 overflow-y-auto" data-lenis-prevent>
+            {skipped.map(({ path, reason }) => (
+              <li key={path} className="truncate">
+                {path} — {reason}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {items.length > 0 && items.length > withLocation && (
+        <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+          <MapPinIcon className="w-3 h-3" />
+          Tanggal dan lokasi yang tidak ada di metadata dibaca dari file itu sendiri.
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isExtracting}
+          className={`${buttonClassName} text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700`}
+        >
+          Batal
+        </button>
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={isExtracting || items.length === 0}
+          className={`${buttonClassName} bg-purple-500 text-white hover:bg-purple-600`}
+        >
+          Tambahkan {items.length} file ke antrean
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// Sentinel placed after a list; asks for the next page as it scrolls into view
+export function LoadMoreTrigger({ hasMore, isLoading, onLoadMore }: LoadMoreTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '600px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore && !isLoading) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-8">
+      {isLoading && (
+        <div className="w-8 h-8 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin" />
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,30 @@
 // src/components/MediaViewer.tsx
 
 import { motion, AnimatePresence } from 'framer-motion';
-import { XMarkIcon, ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/solid';
+import { XMarkIcon, ChevronLeftIcon, ChevronRightIcon, ArrowDownTrayIcon, ArchiveBoxArrowDownIcon } from '@heroicons/react/24/solid';
 import Image from 'next/image';
 import { useEffect, useRef, useState, useCallback } from 'react';
+import { id as localeId } from 'date-fns/locale';
+import { getAlbumItemType, type AlbumPhoto, type DatePrecision, type MemoryId, type MemoryType } from '@/lib/memories';
+import { getMediaUrl, getThumbnailUrl } from '@/lib/mediaUrl';
+import { getDownloadUrl } from '@/lib/memoriesApi';
+import { formatMemoryDate } from '@/lib/memoryDate';
+import { MemoryDescription } from '@/components/MemoryDescription';
 
 interface MediaViewerProps {
   isOpen: boolean;
   onClose: () => void;
   media: {
-    type: 'photo' | 'video';
+    // Without it the viewer offers no download
+    id?: MemoryId;
+    type: MemoryType;
     src: string;
     title: string;
+    description?: string | null;
     date?: string;
+    date_precision?: DatePrecision;
     slideDirection?: 'left' | 'right' | null;
-    album_photos?: { src: string }[] | null;
+    album_photos?: AlbumPhoto[] | null;
   } | null;
   onNavigate?: (direction: 'left' | 'right') => void;
 }
@@ -35,7 +45,15 @@ export function MediaViewer({ isOpen, onClose, media, onNavigate }: MediaViewerP
   }, [albumIndex]);
 
   const isAlbum = media?.album_photos && media.album_photos.length > 1;
-  const currentAlbumSrc = isAlbum ? media.album_photos![albumIndex].src : media?.src;
+  const formattedDate = media?.date
+    ? formatMemoryDate(media.date, media.date_precision || 'day', { dayPattern: 'd MMMM yyyy', locale: localeId })
+    : '';
+  const currentItem = isAlbum ? media.album_photos![albumIndex] : null;
+  const currentAlbumSrc = currentItem ? currentItem.src : media?.src;
+  // Album videos play inline in the carousel, between the photos
+  const isVideoItem = !!currentItem && getAlbumItemType(currentItem) === 'video';
+  // Album items each have their own caption, shown as the album is browsed
+  const currentCaption = currentItem?.caption ?? null;
 
   const handleAlbumNavigate = (direction: 'prev' | 'next') => {
     if (!isAlbum || !media) return;
@@ -67,6 +85,12 @@ export function MediaViewer({ isOpen, onClose, media, onNavigate }: MediaViewerP
 
   if (!media) return null;
 
+  const descriptionBlock = media.description && (
+    <div data-lenis-prevent className="mt-3 max-w-2xl max-h-40 mx-auto overflow-y-auto text-left">
+      <MemoryDescription text={media.description} className="text-sm text-white/80" />
+    </div>
+  );
+
   // Check if we have navigation (album or multiple photos)
   const hasNavigation = isAlbum || onNavigate;
 
@@ -91,6 +115,32 @@ export function MediaViewer({ isOpen, onClose, media, onNavigate }: MediaViewerP
             <XMarkIcon className="w-6 h-6 text-white group-hover:scale-110 transition-transform" />
           </button>
 
+          {/* Downloads - the original of the item shown, and the whole album as a ZIP */}
+          {media.id !== undefined && (
+            <div className="absolute top-4 right-20 flex gap-2 z-[70]" onClick={(e) => e.stopPropagation()}>
+              <a
+                href={getDownloadUrl(media.id, isAlbum ? albumIndex : undefined)}
+                download
+                title="Download"
+                aria-label="Download"
+                className="p-2.5 rounded-full bg-white/20 hover:bg-white/30 transition-colors backdrop-blur-md group border border-white/30"
+              >
+                <ArrowDownTrayIcon className="w-6 h-6 text-white group-hover:scale-110 transition-transform" />
+              </a>
+              {isAlbum && (
+                <a
+                  href={getDownloadUrl(media.id)}
+                  download
+                  title="Download album"
+                  aria-label="Download album"
+                  className="p-2.5 rounded-full bg-white/20 hover:bg-white/30 transition-colors backdrop-blur-md group border border-white/30"
+                >
+                  <ArchiveBoxArrowDownIcon className="w-6 h-6 text-white group-hover:scale-110 transition-transform" />
+                </a>
+              )}
+            </div>
+          )}
+
           {/* Main Content Container */}
           <motion.div
             initial={{ scale: 0.95, opacity: 0 }}
@@ -99,7 +149,7 @@ export function MediaViewer({ isOpen, onClose, media, onNavigate }: MediaViewerP
             onClick={(e) => e.stopPropagation()}
             className="relative w-full max-w-5xl mx-auto flex flex-col items-center"
           >
-            {media.type === 'photo' ? (
+            {media.type === 'photo' || isAlbum ? (
               <>
                 {/* Image Container with Side Arrows for Desktop */}
                 <div className="relative w-full flex items-center justify-center">
@@ -144,17 +194,32 @@ export function MediaViewer({ isOpen, onClose, media, onNavigate }: MediaViewerP
                       transition={{ duration: 0.3 }}
                       className={isImageLoading ? 'invisible' : 'visible'}
                     >
-                      <Image
-                        src={currentAlbumSrc || ''}
-                        alt={media.title}
-                        width={1920}
-                        height={1080}
-                        className="w-auto h-auto max-h-[65vh] sm:max-h-[75vh] max-w-full mx-auto object-contain rounded-lg"
-                        quality={85}
-                        priority
-                        sizes="100vw"
-                        onLoad={() => setIsImageLoading(false)}
-                      />
+                      {isVideoItem ? (
+                        <video
+                          src={getMediaUrl(currentItem.src)}
+                          poster={getThumbnailUrl(currentItem, 1280) || undefined}
+                          controls
+                          playsInline
+                          className="w-auto h-auto max-h-[65vh] sm:max-h-[75vh] max-w-full mx-auto object-contain rounded-lg"
+                          preload="metadata"
+                          onLoadedMetadata={() => setIsImageLoading(false)}
+                          onError={() => setIsImageLoading(false)}
+                        >
+                          Your browser does not support the video tag.
+                        </video>
+                      ) : (
+                        <Image
+                          src={currentAlbumSrc || ''}
+                          alt={media.title}
+                          width={1920}
+                          height={1080}
+                          className="w-auto h-auto max-h-[65vh] sm:max-h-[75vh] max-w-full mx-auto object-contain rounded-lg"
+                          quality={85}
+                          priority
+                          sizes="100vw"
+                          onLoad={() => setIsImageLoading(false)}
+                        />
+                      )}
                     </motion.div>
 
                     {/* Album Counter Badge - Only show when not loading */}
@@ -288,15 +353,17 @@ export function MediaViewer({ isOpen, onClose, media, onNavigate }: MediaViewerP
                   <h3 className="text-lg font-semibold text-white drop-shadow-lg mb-1">
                     {media.title}
                   </h3>
-                  {media.date && (
+                  {formattedDate && (
                     <p className="text-sm text-white/80 drop-shadow-lg">
-                      {new Date(media.date).toLocaleDateString('id-ID', {
-                        year: 'numeric',
-                        month: 'long',
-                        day: 'numeric'
-                      })}
+                      {formattedDate}
+                    </p>
+                  )}
+                  {currentCaption && (
+                    <p className="text-sm text-white/90 italic drop-shadow-lg mt-2">
+                      {currentCaption}
                     </p>
                   )}
+                  {descriptionBlock}
                 </div>
               </>
             ) : (
@@ -325,15 +392,12 @@ export function MediaViewer({ isOpen, onClose, media, onNavigate }: MediaViewerP
                   <h3 className="text-lg font-semibold text-white drop-shadow-lg mb-1">
                     {media.title}
                   </h3>
-                  {media.date && (
+                  {formattedDate && (
                     <p className="text-sm text-white/80 drop-shadow-lg">
-                      {new Date(media.date).toLocaleDateString('id-ID', {
-                        year: 'numeric',
-                        month: 'long',
-                        day: 'numeric'
-                      })}
+                      {formattedDate}
                     </p>
                   )}
+                  {descriptionBlock}
                 </div>
               </div>
             )}
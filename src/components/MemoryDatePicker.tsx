@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { DayPicker } from 'react-day-picker';
+import 'react-day-picker/style.css';
+import { format } from 'date-fns';
+import { id as localeId } from 'date-fns/locale';
+import { CalendarDaysIcon } from '@heroicons/react/24/solid';
+import type { DatePrecision } from '@/lib/memories';
+import { DATE_PRECISIONS } from '@/lib/memoryDate';
+
+interface MemoryDatePickerProps {
+  value: Date;
+  precision: DatePrecision;
+  onChange: (date: Date, precision: DatePrecision) => void;
+}
+
+const PRECISION_LABELS: Record<DatePrecision, string> = {
+  day: 'Tanggal',
+  month: 'Bulan saja',
+  year: 'Tahun saja',
+};
+
+// Oldest year offered; scanned family photos go back a long way
+const START_MONTH = new Date(1900, 0);
+
+const formatValue = (date: Date, precision: DatePrecision) =>
+  format(date, { day: "d MMMM yyyy, HH:mm", month: 'MMMM yyyy', year: 'yyyy' }[precision], { locale: localeId });
+
+// Date of a memory as a button opening a calendar. Besides an exact day, the
+// date can be known only to the month or year, for old photos with no record
+// of when they were taken.
+export function MemoryDatePicker({ value, precision, onChange }: MemoryDatePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const endMonth = new Date(new Date().getFullYear(), 11);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  // A new day keeps the time of day already set
+  const handleDaySelect = (day: Date | undefined) => {
+    if (!day) return;
+    const date = new Date(day);
+    date.setHours(value.getHours(), value.getMinutes());
+    onChange(date, precision);
+  };
+
+  const handleTimeChange = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    if (Number.isNaN(hours) || Number.isNaN(minutes)) return;
+    const date = new Date(value);
+    date.setHours(hours, minutes);
+    onChange(date, precision);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center gap-2 px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm text-left hover:border-purple-400 transition-colors"
+        aria-label="Tanggal kenangan"
+        aria-expanded={isOpen}
+      >
+        <CalendarDaysIcon className="w-4 h-4 text-purple-500 flex-shrink-0" />
+        <span className="truncate">{formatValue(value, precision)}</span>
+        {precision !== 'day' && (
+          <span className="ml-auto text-xs text-gray-400">kira-kira</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="memory-date-picker absolute z-20 left-0 mt-1 p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl text-gray-900 dark:text-white">
+          <div className="flex gap-1 p-1 mb-2 bg-gray-100 dark:bg-gray-700 rounded-lg">
+            {DATE_PRECISIONS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onChange(value, option)}
+                className={`flex-1 px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                  precision === option
+                    ? 'bg-purple-500 text-white'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+              >
+                {PRECISION_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {precision === 'day' ? (
+            <>
+              <DayPicker
+                mode="single"
+                selected={value}
+                onSelect={handleDaySelect}
+                defaultMonth={value}
+                captionLayout="dropdown"
+                startMonth={START_MONTH}
+                endMonth={endMonth}
+                locale={localeId}
+                required
+              />
+              <input
+                type="time"
+                value={format(value, 'HH:mm')}
+                onChange={(e) => handleTimeChange(e.target.value)}
+                className="w-full mt-2 px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-sm outline-none focus:border-purple-500"
+                aria-label="Jam"
+              />
+            </>
+          ) : (
+            // Only the month and year dropdowns; the month shown is the value
+            <DayPicker
+              month={value}
+              onMonthChange={(month) => onChange(month, precision)}
+              captionLayout={precision === 'month' ? 'dropdown' : 'dropdown-years'}
+              hideNavigation={precision === 'year'}
+              startMonth={START_MONTH}
+              endMonth={endMonth}
+              locale={localeId}
+              classNames={{ month_grid: 'hidden' }}
+            />
+          )}
+
+          <button
+            type="button"
+            onClick={() => setIsOpen(false)}
+            className="w-full mt-2 px-3 py-2 rounded-xl text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 transition-colors"
+          >
+            Selesai
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
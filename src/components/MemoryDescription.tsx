@@ -0,0 +1,29 @@
+'use client';
+
+import Markdown, { type Components } from 'react-markdown';
+
+// Lightweight markdown only: emphasis, links, lists, quotes and inline code.
+// Anything else (headings, images, raw HTML) shows as its plain text.
+const ALLOWED_ELEMENTS = ['p', 'br', 'strong', 'em', 'del', 'a', 'ul', 'ol', 'li', 'blockquote', 'code'];
+
+const components: Components = {
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:text-white">
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-5 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => <blockquote className="border-l-2 border-white/40 pl-3 italic">{children}</blockquote>,
+  code: ({ children }) => <code className="px-1 py-0.5 rounded bg-white/10 text-[0.9em]">{children}</code>,
+};
+
+export function MemoryDescription({ text, className = '' }: { text: string; className?: string }) {
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      <Markdown allowedElements={ALLOWED_ELEMENTS} unwrapDisallowed components={components}>
+        {text}
+      </Markdown>
+    </div>
+  );
+}
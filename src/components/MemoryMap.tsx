@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { geoMercator, geoPath } from 'd3-geo';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import { MinusIcon, PlusIcon, ArrowsPointingOutIcon, VideoCameraIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import landTopology from 'world-atlas/land-110m.json';
+import type { Memory } from '@/lib/memories';
+import { getPreviewUrl } from '@/lib/mediaUrl';
+
+interface MemoryMapProps {
+  memories: Memory[];
+  onMediaClick: (memory: Memory) => void;
+}
+
+interface Transform {
+  k: number;
+  x: number;
+  y: number;
+}
+
+interface Cluster {
+  x: number;
+  y: number;
+  memories: Memory[];
+}
+
+// Land outline bundled with the app, so the map needs no tile server and
+// works offline
+const topology = landTopology as unknown as Topology<{ land: GeometryCollection }>;
+const land = feature(topology, topology.objects.land);
+
+// Fit the inhabited latitudes; Mercator blows Antarctica up to fill the view
+const WORLD_EXTENT = { type: 'MultiPoint' as const, coordinates: [[-180, -58], [180, 84]] };
+
+const MAX_ZOOM = 64;
+// Markers closer than this on screen merge into one cluster
+const CLUSTER_RADIUS = 44;
+const MARKER_SIZE = 48;
+
+// Greedy clustering in screen space: each marker joins the first cluster
+// within CLUSTER_RADIUS, so clusters split apart as the map zooms in
+function clusterPoints(points: { x: number; y: number; memory: Memory }[]): Cluster[] {
+  const clusters: (Cluster & { sumX: number; sumY: number })[] = [];
+  for (const { x, y, memory } of points) {
+    const cluster = clusters.find(c => Math.hypot(c.x - x, c.y - y) < CLUSTER_RADIUS);
+    if (cluster) {
+      cluster.memories.push(memory);
+      cluster.sumX += x;
+      cluster.sumY += y;
+      cluster.x = cluster.sumX / cluster.memories.length;
+      cluster.y = cluster.sumY / cluster.memories.length;
+    } else {
+      clusters.push({ x, y, sumX: x, sumY: y, memories: [memory] });
+    }
+  }
+  return clusters;
+}
+
+// Memories at the same spot never split apart, however far the map zooms in
+const isSingleSpot = ({ memories }: Cluster) => memories.every(
+  ({ latitude, longitude }) => latitude === memories[0].latitude && longitude === memories[0].longitude,
+);
+
+export function MemoryMap({ memories, onMediaClick }: MemoryMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [transform, setTransform] = useState<Transform>({ k: 1, x: 0, y: 0 });
+  const dragStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  // Memories of a cluster that zooming can't split, listed to pick from
+  const [spotMemories, setSpotMemories] = useState<Memory[] | null>(null);
+  const spotListRef = useRef<HTMLDivElement>(null);
+
+  // The list would go stale as the gallery's memories change
+  useEffect(() => {
+    setSpotMemories(null);
+  }, [memories]);
+
+  // Follow the container's width; the height keeps a map-like aspect ratio
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const width = entry.contentRect.width;
+      setSize({ width, height: Math.min(Math.max(width * 0.6, 320), 640) });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const { landPath, project } = useMemo(() => {
+    const projection = geoMercator().fitSize([size.width, size.height], WORLD_EXTENT);
+    return {
+      landPath: geoPath(projection)(land) || '',
+      project: (memory: Memory) => projection([memory.longitude as number, memory.latitude as number]),
+    };
+  }, [size.width, size.height]);
+
+  // Keep the world covering the view so it can't be dragged out of sight
+  const clampTransform = useCallback(({ k, x, y }: Transform): Transform => {
+    const zoom = Math.min(Math.max(k, 1), MAX_ZOOM);
+    return {
+      k: zoom,
+      x: Math.min(0, Math.max(size.width * (1 - zoom), x)),
+      y: Math.min(0, Math.max(size.height * (1 - zoom), y)),
+    };
+  }, [size.width, size.height]);
+
+  // Zooms by `factor` keeping the map point under (px, py) in place
+  const zoomAt = useCallback((px: number, py: number, factor: number) => {
+    setTransform(current => {
+      const k = Math.min(Math.max(current.k * factor, 1), MAX_ZOOM);
+      const scale = k / current.k;
+      return clampTransform({ k, x: px - (px - current.x) * scale, y: py - (py - current.y) * scale });
+    });
+  }, [clampTransform]);
+
+  // React's wheel listener is passive, so attach one that can stop page scroll
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      // The list of a spot scrolls instead
+      if (spotListRef.current?.contains(event.target as Node)) return;
+      event.preventDefault();
+      const bounds = element.getBoundingClientRect();
+      zoomAt(event.clientX - bounds.left, event.clientY - bounds.top, Math.exp(-event.deltaY * 0.002));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = { pointerX: event.clientX, pointerY: event.clientY, x: transform.x, y: transform.y };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const start = dragStart.current;
+    if (!start) return;
+    setTransform(current => clampTransform({
+      k: current.k,
+      x: start.x + event.clientX - start.pointerX,
+      y: start.y + event.clientY - start.pointerY,
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const clusters = useMemo(() => {
+    if (!size.width) return [];
+
+    const margin = MARKER_SIZE;
+    const points = memories.flatMap((memory) => {
+      const point = project(memory);
+      if (!point) return [];
+      const x = point[0] * transform.k + transform.x;
+      const y = point[1] * transform.k + transform.y;
+      const isVisible = x > -margin && x < size.width + margin && y > -margin && y < size.height + margin;
+      return isVisible ? [{ x, y, memory }] : [];
+    });
+    return clusterPoints(points);
+  }, [memories, project, transform, size.width, size.height]);
+
+  // Zoom into a cluster until it splits up; one that won't split any
+  // further lists its memories instead
+  const handleClusterClick = (cluster: Cluster) => {
+    if (cluster.memories.length === 1) {
+      onMediaClick(cluster.memories[0]);
+      return;
+    }
+    if (transform.k >= MAX_ZOOM || isSingleSpot(cluster)) {
+      setSpotMemories(cluster.memories);
+      return;
+    }
+    setTransform(current => {
+      const k = Math.min(current.k * 3, MAX_ZOOM);
+      const mapX = (cluster.x - current.x) / current.k;
+      const mapY = (cluster.y - current.y) / current.k;
+      return clampTransform({ k, x: size.width / 2 - mapX * k, y: size.height / 2 - mapY * k });
+    });
+  };
+
+  const controlClassName = 'p-2 bg-white/90 dark:bg-gray-800/90 text-gray-700 dark:text-gray-200 hover:bg-white dark:hover:bg-gray-700 transition-colors';
+
+  return (
+    <div
+      ref={containerRef}
+      data-lenis-prevent
+      className="relative w-full overflow-hidden rounded-2xl bg-sky-50 dark:bg-gray-950 border border-gray-200 dark:border-gray-800 touch-none select-none cursor-grab active:cursor-grabbing"
+      style={{ height: size.height || 480 }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <svg width={size.width} height={size.height} className="absolute inset-0">
+        <g transform={`translate(${transform.x},${transform.y}) scale(${transform.k})`}>
+          <path
+            d={landPath}
+            className="fill-gray-200 stroke-gray-300 dark:fill-gray-800 dark:stroke-gray-700"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        </g>
+      </svg>
+
+      {clusters.map((cluster) => {
+        const [cover] = cluster.memories;
+        const url = getPreviewUrl(cover, MARKER_SIZE * 2);
+        return (
+          <button
+            key={cover.id}
+            type="button"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => handleClusterClick(cluster)}
+            className="absolute -translate-x-1/2 -translate-y-1/2 rounded-full ring-2 ring-white dark:ring-gray-900 shadow-lg hover:scale-110 transition-transform"
+            style={{ left: cluster.x, top: cluster.y, width: MARKER_SIZE, height: MARKER_SIZE }}
+            title={cluster.memories.length === 1 ? cover.title : `${cluster.memories.length} memories`}
+          >
+            <span className="absolute inset-0 flex items-center justify-center overflow-hidden rounded-full bg-gradient-to-br from-purple-500 to-pink-500">
+              {url ? (
+                <Image src={url} alt={cover.title} fill sizes={`${MARKER_SIZE}px`} className="object-cover" />
+              ) : (
+                <VideoCameraIcon className="w-5 h-5 text-white" />
+              )}
+            </span>
+            {cluster.memories.length > 1 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-[1.5rem] h-6 px-1.5 flex items-center justify-center rounded-full bg-gradient-to-r from-purple-600 to-pink-600 text-white text-xs font-bold shadow">
+                {cluster.memories.length}
+              </span>
+            )}
+          </button>
+        );
+      })}
+
+      {spotMemories && (
+        <div
+          ref={spotListRef}
+          className="absolute top-4 left-4 w-64 max-h-[calc(100%-2rem)] flex flex-col rounded-xl bg-white/95 dark:bg-gray-900/95 shadow-lg cursor-default"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-200">{spotMemories.length} memories here</span>
+            <button
+              type="button"
+              onClick={() => setSpotMemories(null)}
+              className="p-1 rounded-full text-gray-500 hover:text-gray-700 dark:hover:text-gray-200"
+              aria-label="Close"
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="overflow-y-auto touch-pan-y p-1">
+            {spotMemories.map((memory) => {
+              const url = getPreviewUrl(memory, 80);
+              return (
+                <li key={memory.id}>
+                  <button
+                    type="button"
+                    onClick={() => onMediaClick(memory)}
+                    className="w-full flex items-center gap-2 p-1.5 rounded-lg text-left hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    <span className="relative flex-shrink-0 w-10 h-10 flex items-center justify-center overflow-hidden rounded-md bg-gradient-to-br from-purple-500 to-pink-500">
+                      {url ? (
+                        <Image src={url} alt={memory.title} fill sizes="40px" className="object-cover" />
+                      ) : (
+                        <VideoCameraIcon className="w-4 h-4 text-white" />
+                      )}
+                    </span>
+                    <span className="text-sm text-gray-700 dark:text-gray-200 truncate">{memory.title}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {memories.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <p className="px-4 py-2 rounded-lg bg-white/80 dark:bg-gray-900/80 text-gray-500 dark:text-gray-400">
+            No memories with a location yet.
+          </p>
+        </div>
+      )}
+
+      <div
+        className="absolute bottom-4 right-4 flex flex-col rounded-lg overflow-hidden shadow-lg divide-y divide-gray-200 dark:divide-gray-700"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <button type="button" onClick={() => zoomAt(size.width / 2, size.height / 2, 2)} className={controlClassName} aria-label="Zoom in">
+          <PlusIcon className="w-5 h-5" />
+        </button>
+        <button type="button" onClick={() => zoomAt(size.width / 2, size.height / 2, 0.5)} className={controlClassName} aria-label="Zoom out">
+          <MinusIcon className="w-5 h-5" />
+        </button>
+        <button type="button" onClick={() => setTransform({ k: 1, x: 0, y: 0 })} className={controlClassName} aria-label="Show the whole world">
+          <ArrowsPointingOutIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
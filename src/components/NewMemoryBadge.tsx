@@ -0,0 +1,17 @@
+'use client';
+
+import { motion } from 'framer-motion';
+
+// Marks a memory that just arrived through a realtime update
+export function NewMemoryBadge() {
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="absolute top-2 left-2 flex items-center gap-1.5 px-2 py-1 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full shadow-lg z-10 pointer-events-none"
+    >
+      <span className="w-1.5 h-1.5 bg-white rounded-full animate-pulse" />
+      <span className="text-xs text-white font-medium">New</span>
+    </motion.div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+import { MAX_TAGS, MAX_TAG_LENGTH } from '@/lib/memoryValidation';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Existing tags offered while typing
+  suggestions: string[];
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Tags as removable chips plus a text field: Enter or a comma adds what was
+// typed, Backspace on an empty field removes the last tag
+export function TagInput({ tags, onChange, suggestions, placeholder = 'Tambah tag...' }: TagInputProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const listId = useId();
+
+  const needle = query.trim().toLowerCase();
+  const matches = needle
+    ? suggestions
+      .filter(tag => tag.toLowerCase().includes(needle) && !tags.includes(tag))
+      .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const isFull = tags.length >= MAX_TAGS;
+
+  const addTag = (value: string) => {
+    const tag = value.trim().slice(0, MAX_TAG_LENGTH);
+    setQuery('');
+    setActiveIndex(0);
+    if (!tag || isFull) return;
+    // Typed in another case, an existing tag keeps its spelling
+    const existing = suggestions.find(suggestion => suggestion.toLowerCase() === tag.toLowerCase()) || tag;
+    if (!tags.includes(existing)) onChange([...tags, existing]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      // Enter would otherwise submit the upload form; it takes the highlighted
+      // suggestion, a comma always adds the text as typed
+      e.preventDefault();
+      addTag(e.key === 'Enter' && matches[activeIndex] ? matches[activeIndex] : query);
+    } else if (e.key === 'Backspace' && !query && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    } else if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1.5 px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 focus-within:border-purple-500 focus-within:ring-2 focus-within:ring-purple-500/20 transition-all">
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 rounded-full text-xs"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter(existing => existing !== tag))}
+              className="p-0.5 rounded-full hover:bg-purple-200 dark:hover:bg-purple-800 transition-colors"
+              aria-label={`Hapus tag ${tag}`}
+            >
+              <XMarkIcon className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {!isFull && (
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value.replace(',', ''));
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => {
+              setIsFocused(false);
+              addTag(query);
+            }}
+            maxLength={MAX_TAG_LENGTH}
+            placeholder={tags.length === 0 ? placeholder : ''}
+            className="flex-1 min-w-[6rem] bg-transparent text-sm text-gray-900 dark:text-white outline-none"
+            role="combobox"
+            aria-expanded={isFocused && matches.length > 0}
+            aria-controls={listId}
+            aria-autocomplete="list"
+          />
+        )}
+      </div>
+
+      {isFocused && matches.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 left-0 right-0 mt-1 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg max-h-48 overflow-y-auto"
+        >
+          {matches.map((tag, index) => (
+            <li
+              key={tag}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Runs before the input's blur, which would add the typed text instead
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag);
+              }}
+              className={`px-3 py-1.5 text-sm cursor-pointer ${
+                index === activeIndex
+                  ? 'bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300'
+                  : 'text-gray-700 dark:text-gray-200'
+              }`}
+            >
+              {tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
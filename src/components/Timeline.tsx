@@ -4,32 +4,28 @@ import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import Image from 'next/image';
 import { format } from 'date-fns';
-import { PlayIcon, Square2StackIcon } from '@heroicons/react/24/solid';
-
-interface Memory {
-  id: number;
-  type: 'photo' | 'video';
-  title: string;
-  src?: string | null;
-  thumbnail?: string | null;
-  duration?: string;
-  date: string;
-  tags?: string[];
-  album_photos?: { src: string }[] | null;
-}
+import { PlayIcon } from '@heroicons/react/24/solid';
+import type { Memory, MemoryId } from '@/lib/memories';
+import { getThumbnailUrl } from '@/lib/mediaUrl';
+import { formatMemoryDate, getCalendarDate } from '@/lib/memoryDate';
+import { NewMemoryBadge } from '@/components/NewMemoryBadge';
+import { AlbumBadge } from '@/components/AlbumBadge';
 
 interface TimelineProps {
   memories: Memory[];
+  newMemoryIds?: Set<MemoryId>;
   onMediaClick: (memory: Memory) => void;
 }
 
-export function Timeline({ memories, onMediaClick }: TimelineProps) {
-  // Group memories by year and month - memoized for performance
+export function Timeline({ memories, newMemoryIds, onMediaClick }: TimelineProps) {
+  // Group memories by year and month - memoized for performance. Memories
+  // known only to the year get a group of their own (month null) after the
+  // months of that year.
   const timelineGroups = useMemo(() => {
     return memories.reduce((groups, memory) => {
-      const date = new Date(memory.date);
+      const date = getCalendarDate(memory.date, memory.date_precision);
       const year = date.getFullYear();
-      const month = date.getMonth();
+      const month = memory.date_precision === 'year' ? null : date.getMonth();
 
       const yearGroup = groups.find(g => g.year === year);
       if (yearGroup) {
@@ -46,13 +42,13 @@ export function Timeline({ memories, onMediaClick }: TimelineProps) {
         });
       }
       return groups;
-    }, [] as { year: number; months: { month: number; memories: Memory[] }[] }[]);
+    }, [] as { year: number; months: { month: number | null; memories: Memory[] }[] }[]);
   }, [memories]);
 
   // Sort groups by year (descending) and months (descending)
   timelineGroups.sort((a, b) => b.year - a.year);
   timelineGroups.forEach(group => {
-    group.months.sort((a, b) => b.month - a.month);
+    group.months.sort((a, b) => (b.month ?? -1) - (a.month ?? -1));
   });
 
   const [selectedYear, setSelectedYear] = useState<number | null>(
@@ -94,9 +90,9 @@ export function Timeline({ memories, onMediaClick }: TimelineProps) {
               {year}
             </h2>
             {months.map(({ month, memories: monthMemories }) => (
-              <div key={month} className="mb-12">
+              <div key={month ?? 'year'} className="mb-12">
                 <h3 className="text-xl font-semibold text-gray-700 dark:text-gray-300 mb-6">
-                  {format(new Date(year, month), 'MMMM')}
+                  {month === null ? `Sometime in ${year}` : format(new Date(year, month), 'MMMM')}
                 </h3>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
                   {monthMemories.map((memory) => {
@@ -120,6 +116,7 @@ export function Timeline({ memories, onMediaClick }: TimelineProps) {
                         )}
                         
                         <div className={`relative rounded-lg overflow-hidden shadow-lg transition-all duration-300 bg-white dark:bg-gray-800 ${isAlbum ? 'group-hover:shadow-2xl group-hover:-translate-y-1' : 'hover:shadow-xl'}`}>
+                          {newMemoryIds?.has(memory.id) && <NewMemoryBadge />}
                           {memory.type === 'photo' ? (
                             <div className="relative aspect-video">
                               <Image
@@ -132,19 +129,12 @@ export function Timeline({ memories, onMediaClick }: TimelineProps) {
                                 sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
                               />
                               {/* Album badge */}
-                              {isAlbum && (
-                                <div className="absolute top-2 right-2 flex items-center gap-1 px-2 py-1 bg-black/60 rounded-full">
-                                  <Square2StackIcon className="w-4 h-4 text-white" />
-                                  <span className="text-xs text-white font-medium">
-                                    {memory.album_photos!.length}
-                                  </span>
-                                </div>
-                              )}
+                              {isAlbum && <AlbumBadge items={memory.album_photos!} />}
                             </div>
                           ) : (
                             <div className="relative aspect-video">
                               <Image
-                                src={memory.thumbnail || ''}
+                                src={getThumbnailUrl(memory, 720) || ''}
                                 alt={memory.title}
                                 fill
                                 className="object-cover transition-transform duration-300 group-hover:scale-105"
@@ -160,6 +150,7 @@ export function Timeline({ memories, onMediaClick }: TimelineProps) {
                                   {memory.duration}
                                 </div>
                               )}
+                              {isAlbum && <AlbumBadge items={memory.album_photos!} />}
                             </div>
                           )}
                           <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-black/0 to-black/0 opacity-0 group-hover:opacity-100 transition-opacity" />
@@ -168,7 +159,7 @@ export function Timeline({ memories, onMediaClick }: TimelineProps) {
                               {memory.title}
                             </h4>
                             <p className="text-sm text-gray-200">
-                              {format(new Date(memory.date), 'MMMM d, yyyy')}
+                              {formatMemoryDate(memory.date, memory.date_precision)}
                             </p>
                             {memory.tags && memory.tags.length > 0 && (
                               <div className="flex flex-wrap gap-1 mt-2">
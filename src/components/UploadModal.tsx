@@ -2,9 +2,54 @@
 
 import React, { useState, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { XMarkIcon, PhotoIcon, VideoCameraIcon, Square2StackIcon, Bars3Icon, CloudArrowUpIcon, SparklesIcon } from '@heroicons/react/24/solid';
-import { supabase } from '@/lib/supabase';
-import { v4 as uuidv4 } from 'uuid';
+import { XMarkIcon, PhotoIcon, VideoCameraIcon, Square2StackIcon, Bars3Icon, CloudArrowUpIcon, SparklesIcon, MapPinIcon, ArrowPathIcon, FolderIcon, ArchiveBoxArrowDownIcon } from '@heroicons/react/24/solid';
+import { ApiError, fetchMemoryPage, fetchTags, uploadMemory } from '@/lib/memoriesApi';
+import { MAX_CAPTION_LENGTH, MAX_DESCRIPTION_LENGTH, MAX_TAGS } from '@/lib/memoryValidation';
+import { discardUploads, uploadResumable } from '@/lib/resumableUpload';
+import { MAX_UPLOAD_SIZE } from '@/lib/mediaUrl';
+import { optimizeImage } from '@/lib/imageOptimization';
+import { convertHeic, isHeic, withHeicType } from '@/lib/heic';
+import {
+  getFolderName,
+  groupFolderAlbums,
+  isMediaFile,
+  readDroppedFiles,
+  readPickedFolder,
+  type PickedFile,
+} from '@/lib/folderUpload';
+import {
+  createImportPlaceholder,
+  extractImportItem,
+  planArchiveImport,
+  type ImportItem,
+  type ImportMetadata,
+  type ImportPlan,
+} from '@/lib/archiveImport';
+import {
+  readCaptureDate,
+  readImageSize,
+  readLocation,
+  readVideoMetadata,
+  type GeoPoint,
+  type MediaSize,
+  type VideoMetadata,
+} from '@/lib/mediaMetadata';
+import { hashFile } from '@/lib/contentHash';
+import { format } from 'date-fns';
+import {
+  appendThumbnails,
+  createImageThumbnails,
+  createVideoThumbnails,
+  defaultThumbnailTime,
+  type ThumbnailImage,
+} from '@/lib/videoThumbnail';
+import type { DatePrecision, Memory, MemoryId } from '@/lib/memories';
+import { toMemoryDate } from '@/lib/memoryDate';
+import { DuplicateWarning } from '@/components/DuplicateWarning';
+import { ImportPreview } from '@/components/ImportPreview';
+import { VideoFrame } from '@/components/VideoFrame';
+import { TagInput } from '@/components/TagInput';
+import { MemoryDatePicker } from '@/components/MemoryDatePicker';
 import Image from 'next/image';
 import {
   DndContext,
@@ -37,18 +82,267 @@ interface FileWithPreview extends File {
 interface FileWithTitle {
   file: FileWithPreview;
   title: string;
+  // Story behind a single upload, in markdown
+  description: string;
+  // Album photos: the photo's own caption
+  caption: string;
+  // When the photo or video was taken, and whether that is known to the
+  // day or only the month or year
+  date: Date;
+  datePrecision: DatePrecision;
+  // GPS position embedded in the file, if any
+  location: GeoPoint | null;
+  // Set once the uploader changes the date or location, so what is read from
+  // the file afterwards doesn't overwrite it
+  dateEdited: boolean;
+  locationEdited: boolean;
+  // SHA-256 of the file, once hashed
+  hash: string | null;
+  // Memories that already hold this exact file, unless the uploader chose to keep it anyway
+  duplicates: Memory[];
+  tags: string[];
+  // Videos: seconds into the video of the thumbnail frame, null for the
+  // default frame, or an image picked to use instead
+  thumbnailTime: number | null;
+  thumbnailImage: { file: File; preview: string } | null;
+  // Videos: length in seconds, once the preview has loaded
+  videoDuration: number | null;
+  // HEIC photos: true while the JPEG copy for the preview is being made
+  converting: boolean;
+  // Folder the file was picked or dropped in, empty for loose files
+  folder: string;
+  // Imported files stay in their archive and are unpacked each time they are
+  // hashed or uploaded; `file` is an empty stand-in until then
+  archiveItem: ImportItem | null;
   id: string;
 }
 
+// The file's contents, unpacked from the archive for imported files
+const resolveFile = ({ file, archiveItem }: { file: File; archiveItem?: ImportItem | null }) => (
+  archiveItem ? extractImportItem(archiveItem) : Promise.resolve(file)
+);
+
+const getFileSize = ({ file, archiveItem }: { file: File; archiveItem?: ImportItem | null }) => (
+  archiveItem?.size ?? file.size
+);
+
+// Reads the EXIF or video capture date and location, to swap into the file's
+// queue item; those from an imported sidecar are kept, and so is whatever the
+// uploader changed in the meantime
+async function readFileMetadata(file: File, metadata?: ImportMetadata) {
+  const [captureDate, location] = await Promise.all([readCaptureDate(file), readLocation(file)]);
+  return (item: FileWithTitle): FileWithTitle => ({
+    ...item,
+    ...(item.dateEdited ? {} : { date: metadata?.date || captureDate }),
+    ...(item.locationEdited ? {} : { location: metadata?.location || location }),
+  });
+}
+
+// Imported files are previewed from a small thumbnail rather than kept
+// unpacked to be shown; HEIC photos go without
+async function createImportPreview(file: File): Promise<string> {
+  if (isHeic(file)) return '';
+  try {
+    const [thumbnail] = file.type.startsWith('video/')
+      ? await createVideoThumbnails(file, null)
+      : await createImageThumbnails(file);
+    return URL.createObjectURL(thumbnail.blob);
+  } catch (error) {
+    console.error('Error creating preview:', error);
+    return '';
+  }
+}
+
+// What an album is created with besides its files
+interface AlbumDetails {
+  title: string;
+  description: string;
+  tags: string[];
+  // Null to take the cover's date
+  date: { date: Date; precision: DatePrecision } | null;
+}
+
+// Hashes looked up per request, within the API's page size
+const HASH_LOOKUP_BATCH = 50;
+
+// Each file, or the album as a whole, is tried this many times before it
+// counts as failed; retries wait a little longer each time
+const UPLOAD_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+interface UploadSummary {
+  succeeded: number;
+  failed: number;
+}
+
+// Runs `task` until it succeeds or runs out of attempts. Requests the server
+// rejected as invalid would fail the same way again, so they aren't retried.
+async function withRetries<T>(task: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const isRejected = error instanceof ApiError && error.status >= 400 && error.status < 500;
+      if (isRejected || attempt >= UPLOAD_ATTEMPTS) throw error;
+      console.error(`Upload attempt ${attempt} failed, retrying:`, error);
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    }
+  }
+}
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Upload failed';
+
+const appendDescription = (form: FormData, description: string) => {
+  if (description.trim()) form.append('description', description);
+};
+
+const appendDate = (form: FormData, date: Date, precision: DatePrecision) => {
+  form.append('date', toMemoryDate(date, precision));
+  form.append('date_precision', precision);
+};
+
+const appendLocation = (form: FormData, location: GeoPoint | null | undefined) => {
+  if (!location) return;
+  form.append('latitude', String(location.latitude));
+  form.append('longitude', String(location.longitude));
+};
+
+const appendTags = (form: FormData, tags: string[]) => {
+  if (tags.length > 0) form.append('tags', JSON.stringify(tags));
+};
+
+const appendSize = (form: FormData, size: MediaSize | null) => {
+  if (!size) return;
+  form.append('width', String(size.width));
+  form.append('height', String(size.height));
+};
+
+// Speed and ETA are measured over this much recent transfer, so they follow
+// the connection instead of averaging over the whole batch
+const SPEED_WINDOW_MS = 5000;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${Math.round(bytes)} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const formatDuration = (seconds: number) => {
+  const total = Math.ceil(seconds);
+  if (total < 60) return `${total} dtk`;
+  if (total < 3600) return `${Math.floor(total / 60)} mnt ${total % 60} dtk`;
+  return `${Math.floor(total / 3600)} jam ${Math.floor((total % 3600) / 60)} mnt`;
+};
+
+// Thin bar along the bottom of a file preview while it uploads
+function FileProgressBar({ progress }: { progress?: number }) {
+  if (progress === undefined) return null;
+  return (
+    <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-black/30">
+      <div
+        className={`h-full transition-all duration-300 ${progress >= 100 ? 'bg-green-500' : 'bg-gradient-to-r from-purple-500 to-pink-500'}`}
+        style={{ width: `${progress}%` }}
+      />
+    </div>
+  );
+}
+
+// Stands in for a preview that isn't there yet (HEIC being converted, file
+// still in its archive) or couldn't be made
+function PreviewPlaceholder({ file }: { file: FileWithTitle }) {
+  const label = file.converting
+    ? 'Mengonversi HEIC...'
+    : file.archiveItem && !file.hash ? 'Masih di dalam arsip' : 'Pratinjau tidak tersedia';
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-gray-100 dark:bg-gray-800 text-gray-400">
+      {file.converting ? (
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-purple-500" />
+      ) : (
+        <PhotoIcon className="w-8 h-8" />
+      )}
+      <span className="text-xs">{label}</span>
+    </div>
+  );
+}
+
+// Picks a video's thumbnail: a frame scrubbed to, or an image of the
+// uploader's own. Shared by single uploads and album items.
+function ThumbnailPicker({
+  file,
+  className = '',
+  onTimeChange,
+  onImageChange,
+}: {
+  file: FileWithTitle;
+  className?: string;
+  onTimeChange: (time: number) => void;
+  onImageChange: (image: File | null) => void;
+}) {
+  return (
+    <div className={`text-xs text-gray-500 dark:text-gray-400 ${className}`}>
+      <div className="flex items-center justify-between mb-1">
+        <span>Thumbnail</span>
+        <label className="text-purple-600 dark:text-purple-400 hover:underline cursor-pointer">
+          Gambar sendiri
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              onImageChange(e.target.files?.[0] || null);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      {file.thumbnailImage ? (
+        <button
+          type="button"
+          onClick={() => onImageChange(null)}
+          className="w-full text-left text-purple-600 dark:text-purple-400 hover:underline"
+        >
+          Pakai frame dari video
+        </button>
+      ) : (
+        <input
+          type="range"
+          min={0}
+          max={file.videoDuration || 0}
+          step={0.1}
+          value={file.thumbnailTime ?? defaultThumbnailTime(file.videoDuration || 0)}
+          onChange={(e) => onTimeChange(Number(e.target.value))}
+          disabled={!file.videoDuration}
+          className="w-full accent-purple-500"
+          aria-label="Pilih frame thumbnail"
+        />
+      )}
+    </div>
+  );
+}
+
 // Sortable Photo Item Component
 function SortablePhotoItem({ 
   file, 
   index, 
-  onRemove 
+  progress,
+  failed,
+  onRemove,
+  onCaptionChange,
+  onThumbnailTimeChange,
+  onThumbnailImageChange,
+  onVideoDuration,
 }: { 
   file: FileWithTitle; 
   index: number; 
+  progress?: number;
+  failed?: boolean;
   onRemove: () => void;
+  onCaptionChange: (caption: string) => void;
+  onThumbnailTimeChange: (time: number) => void;
+  onThumbnailImageChange: (image: File | null) => void;
+  onVideoDuration: (duration: number) => void;
 }) {
   const {
     attributes,
@@ -68,18 +362,41 @@ function SortablePhotoItem({
 
   return (
     <div ref={setNodeRef} style={style} {...attributes}>
-      <div className={`relative bg-gray-50 dark:bg-gray-800 rounded-xl overflow-hidden border-2 transition-all ${isDragging ? 'shadow-2xl ring-2 ring-purple-500 border-purple-500' : 'border-gray-200 dark:border-gray-700'}`}>
+      <div className={`relative bg-gray-50 dark:bg-gray-800 rounded-xl overflow-hidden border-2 transition-all ${isDragging ? 'shadow-2xl ring-2 ring-purple-500 border-purple-500' : failed ? 'border-red-500' : 'border-gray-200 dark:border-gray-700'}`}>
         <div className="relative group">
           <div className="relative w-full aspect-square">
-            <Image
-              src={file.file.preview || ''}
-              alt={file.title}
-              fill
-              className="object-cover"
-              loading="lazy"
-              quality={75}
-              sizes="(max-width: 640px) 50vw, 33vw"
-            />
+            {file.file.type.startsWith('video/') && (file.thumbnailImage || !file.archiveItem) ? (
+              <>
+                {/* Shows the thumbnail as it will be: the picked frame or image */}
+                {file.thumbnailImage ? (
+                  <Image
+                    src={file.thumbnailImage.preview}
+                    alt={file.title}
+                    fill
+                    className="object-cover"
+                    sizes="(max-width: 640px) 50vw, 33vw"
+                  />
+                ) : (
+                  <VideoFrame src={file.file.preview || ''} time={file.thumbnailTime} onDuration={onVideoDuration} />
+                )}
+                <div className="absolute bottom-2 left-1/2 -translate-x-1/2 p-1.5 bg-black/60 rounded-full">
+                  <VideoCameraIcon className="w-4 h-4 text-white" />
+                </div>
+              </>
+            ) : file.file.preview ? (
+              <Image
+                src={file.file.preview}
+                alt={file.title}
+                fill
+                className="object-cover"
+                loading="lazy"
+                quality={75}
+                sizes="(max-width: 640px) 50vw, 33vw"
+              />
+            ) : (
+              <PreviewPlaceholder file={file} />
+            )}
+            <FileProgressBar progress={progress} />
           </div>
           <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
           <button
@@ -93,6 +410,11 @@ function SortablePhotoItem({
           <div className="absolute top-2 left-2 w-7 h-7 bg-purple-500 rounded-full flex items-center justify-center shadow-lg">
             <span className="text-xs text-white font-bold">{index + 1}</span>
           </div>
+          {file.duplicates.length > 0 && (
+            <div className="absolute top-2 left-11 px-2 py-1 bg-amber-500 rounded-full text-xs text-white font-medium shadow-lg">
+              Duplikat
+            </div>
+          )}
           {/* Cover badge */}
           {index === 0 && (
             <div className="absolute bottom-2 left-2 px-2 py-1 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full text-xs text-white font-medium shadow-lg flex items-center gap-1">
@@ -108,47 +430,35 @@ function SortablePhotoItem({
             <Bars3Icon className="w-4 h-4 text-gray-600 dark:text-gray-300" />
           </div>
         </div>
+        <input
+          type="text"
+          value={file.caption}
+          onChange={(e) => onCaptionChange(e.target.value)}
+          maxLength={MAX_CAPTION_LENGTH}
+          className="w-full px-2 py-1.5 bg-transparent text-xs text-gray-900 dark:text-white outline-none placeholder:text-gray-400"
+          placeholder="Keterangan..."
+        />
+        {file.file.type.startsWith('video/') && (
+          <ThumbnailPicker
+            file={file}
+            className="px-2 pb-2"
+            onTimeChange={onThumbnailTimeChange}
+            onImageChange={onThumbnailImageChange}
+          />
+        )}
       </div>
     </div>
   );
 }
 
-const generateVideoThumbnail = async (file: File): Promise<Blob> => {
-  return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    video.src = URL.createObjectURL(file);
-    video.crossOrigin = 'anonymous';
-    video.currentTime = 1; // Set to 1 second to avoid black frame
-    
-    video.onloadeddata = () => {
-      try {
-        canvas.width = Math.min(video.videoWidth, 800); // Limit thumbnail size
-        canvas.height = Math.min(video.videoHeight, 600);
-        ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
-        
-        // Convert canvas to blob
-        canvas.toBlob((blob) => {
-          URL.revokeObjectURL(video.src);
-          if (blob) {
-            resolve(blob);
-          } else {
-            reject(new Error('Failed to generate thumbnail'));
-          }
-        }, 'image/jpeg', 0.7);
-      } catch (error) {
-        URL.revokeObjectURL(video.src);
-        reject(error);
-      }
-    };
-    
-    video.onerror = () => {
-      URL.revokeObjectURL(video.src);
-      reject(new Error('Failed to load video'));
-    };
-  });
+// Frees the object URLs a file's previews hold
+const releasePreviews = ({ file, thumbnailImage }: FileWithTitle) => {
+  if (file.preview) {
+    URL.revokeObjectURL(file.preview);
+  }
+  if (thumbnailImage) {
+    URL.revokeObjectURL(thumbnailImage.preview);
+  }
 };
 
 export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalProps) {
@@ -158,12 +468,39 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
   const [uploadProgress, setUploadProgress] = useState<number>(0);
   const [uploadSpeed, setUploadSpeed] = useState<string>('');
   const [remainingSize, setRemainingSize] = useState<string>('');
+  const [timeRemaining, setTimeRemaining] = useState<string>('');
+  // Upload progress of each file in the batch, in percent, keyed by file id
+  const [fileProgress, setFileProgress] = useState<Record<string, number>>({});
+  // Why each file of the last batch failed, keyed by file id
+  const [failedFiles, setFailedFiles] = useState<Record<string, string>>({});
+  const [uploadSummary, setUploadSummary] = useState<UploadSummary | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isAlbumMode, setIsAlbumMode] = useState(false);
   const [albumTitle, setAlbumTitle] = useState('');
+  // Null until edited: the album then takes its cover photo's date
+  const [albumDate, setAlbumDate] = useState<{ date: Date; precision: DatePrecision } | null>(null);
+  const [albumTags, setAlbumTags] = useState<string[]>([]);
+  const [albumDescription, setAlbumDescription] = useState('');
+  // Uploads each folder of a folder drop as its own album, titled after it
+  const [foldersAsAlbums, setFoldersAsAlbums] = useState(false);
+  // Titles and descriptions of imported albums, keyed by folder
+  const [folderAlbumDetails, setFolderAlbumDetails] = useState<Record<string, { title: string; description: string }>>({});
+  // What importing the picked archives would add, shown before anything is unpacked
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  // Tags waiting to be added to every file of the batch at once
+  const [batchTags, setBatchTags] = useState<string[]>([]);
+  // Tags already in the gallery, offered while typing
+  const [existingTags, setExistingTags] = useState<string[]>([]);
   const uploadStartTime = useRef<number>(0);
   const totalSize = useRef<number>(0);
   const uploadedSize = useRef<number>(0);
+  // Bytes finished and expected per file; a photo's display version and
+  // original both count towards it
+  const fileBytes = useRef<Record<string, { done: number; total: number }>>({});
+  const progressSamples = useRef<{ time: number; bytes: number }[]>([]);
+  // JPEG copies of HEIC photos, keyed by file id; null when conversion failed
+  const heicConversions = useRef<Record<string, Promise<File | null>>>({});
 
   // Prevent body scroll when modal is open
   React.useEffect(() => {
@@ -196,6 +533,24 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
     }
   }, [isOpen]);
 
+  React.useEffect(() => {
+    if (!isOpen) return;
+    fetchTags()
+      .then(tags => setExistingTags(tags.map(({ tag }) => tag)))
+      .catch(error => console.error('Error fetching tags:', error));
+  }, [isOpen]);
+
+  const albumCover = files[0];
+  // Imported albums stay albums; other folders only when asked to
+  const folderAlbums = isAlbumMode
+    ? []
+    : groupFolderAlbums(files.filter(({ folder }) => foldersAsAlbums || folder in folderAlbumDetails));
+  const hasFolders = files.some(({ folder }) => folder);
+  const getFolderAlbumTitle = (folder: string) => folderAlbumDetails[folder]?.title || getFolderName(folder);
+
+  // Tags typed in this batch are offered for the other files too
+  const tagSuggestions = Array.from(new Set([...existingTags, ...albumTags, ...files.flatMap(({ tags }) => tags)]));
+
   const handleDragEnter = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -213,38 +568,142 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
     e.stopPropagation();
   };
 
-  const processFiles = useCallback((selectedFiles: File[]) => {
-    // Calculate total size including existing files
-    const MAX_TOTAL_SIZE = 15 * 1024 * 1024; // 15MB in bytes
-    const existingTotalSize = files.reduce((acc, file) => acc + file.file.size, 0);
-    const newTotalSize = selectedFiles.reduce((acc, file) => acc + file.size, 0) + existingTotalSize;
+  // Hashes the files one at a time, then flags those already uploaded.
+  // Imported files are unpacked for it one by one, and read for their
+  // metadata and a preview while at hand.
+  const checkDuplicates = async (newFiles: FileWithTitle[]) => {
+    const hashes = new Map<string, string>();
+    for (const newFile of newFiles) {
+      const { archiveItem, id } = newFile;
+      try {
+        const file = await resolveFile(newFile);
+        const hash = await hashFile(file);
+        hashes.set(id, hash);
+        setFiles(prev => prev.map(item => (item.id === id ? { ...item, hash } : item)));
+        if (archiveItem) {
+          const [applyMetadata, preview] = await Promise.all([
+            readFileMetadata(file, archiveItem.metadata),
+            createImportPreview(file),
+          ]);
+          newFile.file.preview = preview;
+          setFiles(prev => prev.map(item => (item.id === id ? applyMetadata(item) : item)));
+        }
+      } catch (error) {
+        console.error('Error hashing file:', error);
+      }
+    }
+
+    const uniqueHashes = Array.from(new Set(hashes.values()));
+    // Keyed by id, as an album can match hashes of several batches
+    const existing = new Map<MemoryId, Memory>();
+    try {
+      for (let i = 0; i < uniqueHashes.length; i += HASH_LOOKUP_BATCH) {
+        // A batch can match more memories than fit on one page
+        let cursor: string | null = null;
+        do {
+          const page = await fetchMemoryPage({ hashes: uniqueHashes.slice(i, i + HASH_LOOKUP_BATCH), cursor, limit: 100 });
+          page.memories.forEach(memory => existing.set(memory.id, memory));
+          cursor = page.nextCursor;
+        } while (cursor);
+      }
+    } catch (error) {
+      console.error('Error looking up duplicates:', error);
+      return;
+    }
+
+    setFiles(prev => prev.map((item) => {
+      const hash = hashes.get(item.id);
+      if (!hash) return item;
+      return { ...item, duplicates: Array.from(existing.values()).filter(memory => memory.content_hashes.includes(hash)) };
+    }));
+  };
 
-    if (newTotalSize > MAX_TOTAL_SIZE) {
-      setError(`Total file size exceeds 15MB limit. Please remove some files.`);
+  // Converts a HEIC photo in the background and shows its JPEG copy as the
+  // preview once ready
+  const convertForPreview = (file: FileWithPreview, id: string) => {
+    heicConversions.current[id] = convertHeic(file)
+      .then((converted) => {
+        file.preview = URL.createObjectURL(converted);
+        return converted;
+      })
+      .catch((error) => {
+        console.error('Error converting HEIC:', error);
+        return null;
+      })
+      .finally(() => {
+        setFiles(prev => prev.map(item => (item.id === id ? { ...item, converting: false } : item)));
+      });
+  };
+
+  // Imported files come as archive entries, with the metadata of their
+  // Takeout sidecar
+  const processFiles = useCallback((pickedFiles: (PickedFile & { archiveItem?: ImportItem })[]) => {
+    const selectedFiles = pickedFiles.map(picked => ({ ...picked, file: withHeicType(picked.file) }));
+
+    // Uploads are chunked and resumable, so only single files are capped
+    const tooLarge = selectedFiles.find(picked => getFileSize(picked) > MAX_UPLOAD_SIZE);
+    if (tooLarge) {
+      setError(`${tooLarge.file.name} exceeds the ${MAX_UPLOAD_SIZE / (1024 * 1024 * 1024)}GB limit per file.`);
       return;
     }
 
-    const newFiles: FileWithTitle[] = selectedFiles.map(file => {
-      const preview = URL.createObjectURL(file);
+    const newFiles: FileWithTitle[] = selectedFiles.map(({ file, folder, archiveItem }) => {
+      const metadata = archiveItem?.metadata;
+      // Browsers other than Safari can't show HEIC; it gets a converted preview
+      const preview = isHeic(file) || archiveItem ? '' : URL.createObjectURL(file);
       const fileWithPreview = Object.assign(file, { preview });
       return {
         file: fileWithPreview,
-        title: file.name.split('.')[0],
+        title: metadata?.title || file.name.split('.')[0],
+        description: metadata?.description || '',
+        caption: '',
+        date: metadata?.date || new Date(file.lastModified),
+        datePrecision: 'day',
+        location: metadata?.location || null,
+        dateEdited: false,
+        locationEdited: false,
+        hash: null,
+        duplicates: [],
+        tags: [],
+        thumbnailTime: null,
+        thumbnailImage: null,
+        videoDuration: null,
+        converting: isHeic(file) && !archiveItem,
+        folder,
+        archiveItem: archiveItem || null,
         id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       };
     });
     setFiles(prev => [...prev, ...newFiles]);
-  }, [files]);
+    newFiles.filter(({ converting }) => converting).forEach(({ file, id }) => convertForPreview(file, id));
+
+    // Imported files are read once unpacked for hashing
+    newFiles.filter(({ archiveItem }) => !archiveItem).forEach(({ file, id }) => {
+      readFileMetadata(file).then((applyMetadata) => {
+        setFiles(prev => prev.map(item => (item.id === id ? applyMetadata(item) : item)));
+      });
+    });
 
-  const handleDrop = (e: React.DragEvent) => {
+    checkDuplicates(newFiles);
+  }, []);
+
+  // Dropped folders are read recursively; what isn't a photo or video in
+  // them is left out
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
 
-    const droppedFiles = Array.from(e.dataTransfer.files).filter(file => 
-      file.type.startsWith('image/') || file.type.startsWith('video/')
-    );
+    let dropped: PickedFile[];
+    try {
+      dropped = await readDroppedFiles(e.dataTransfer);
+    } catch (error) {
+      console.error('Error reading dropped folder:', error);
+      setError('Failed to read the dropped folder.');
+      return;
+    }
 
+    const droppedFiles = dropped.filter(({ file }) => isMediaFile(file));
     if (droppedFiles.length === 0) {
       setError('Please drop only image or video files.');
       return;
@@ -255,20 +714,106 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || []);
-    processFiles(selectedFiles);
+    processFiles(selectedFiles.map(file => ({ file, folder: '' })));
+  };
+
+  const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const pickedFiles = readPickedFolder(Array.from(e.target.files || []))
+      .filter(({ file }) => isMediaFile(file));
+    // Picking the same folder again should still fire a change
+    e.target.value = '';
+    if (pickedFiles.length === 0) {
+      setError('The folder has no image or video files.');
+      return;
+    }
+    processFiles(pickedFiles);
+  };
+
+  // Reading the archives only plans the import; nothing is unpacked until
+  // the plan is confirmed
+  const handleArchiveChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const archives = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (archives.length === 0) return;
+
+    setImportStatus('Membaca arsip...');
+    try {
+      setImportPlan(await planArchiveImport(archives));
+    } catch (error) {
+      console.error('Error reading archive:', error);
+      setError('Failed to read the archive. Is it a ZIP file?');
+    } finally {
+      setImportStatus(null);
+    }
+  };
+
+  // Queues the planned files, still packed; each is unpacked only when it is
+  // hashed or uploaded. Albums become folder albums of their own, whatever
+  // the folders-as-albums choice for dropped folders.
+  const handleConfirmImport = () => {
+    if (!importPlan) return;
+    const { albums, singles } = importPlan;
+    const items = [...albums.flatMap(({ items: albumItems }) => albumItems), ...singles];
+
+    setImportPlan(null);
+    if (albums.length > 0) {
+      setFolderAlbumDetails(prev => ({
+        ...prev,
+        ...Object.fromEntries(albums.map(({ folder, title, description }) => [folder, { title, description }])),
+      }));
+      setIsAlbumMode(false);
+    }
+    processFiles(items.map(item => ({ file: createImportPlaceholder(item), folder: item.folder, archiveItem: item })));
   };
 
+  // Images pasted anywhere in the open modal join the queue. Pastes without
+  // files, like text into the title fields, are left alone.
+  React.useEffect(() => {
+    if (!isOpen || isUploading) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const pasted = Array.from(event.clipboardData?.files || []);
+      if (pasted.length === 0) return;
+      event.preventDefault();
+
+      const mediaFiles = pasted.filter(isMediaFile);
+      if (mediaFiles.length === 0) {
+        setError('Only images and videos can be pasted.');
+        return;
+      }
+      // Screenshots all arrive as "image.png"; the paste time tells them apart
+      const pastedAt = format(new Date(), 'yyyy-MM-dd HH.mm.ss');
+      processFiles(mediaFiles.map((file, index) => {
+        const extension = file.name.split('.').pop() || 'png';
+        const name = `Tempelan ${pastedAt}${mediaFiles.length > 1 ? ` (${index + 1})` : ''}.${extension}`;
+        return { file: new File([file], name, { type: file.type, lastModified: Date.now() }), folder: '' };
+      }));
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [isOpen, isUploading, processFiles]);
+
   const handleRemoveFile = useCallback((index: number) => {
     setFiles(prev => {
       const newFiles = [...prev];
-      if (newFiles[index].file.preview) {
-        URL.revokeObjectURL(newFiles[index].file.preview);
-      }
+      releasePreviews(newFiles[index]);
       newFiles.splice(index, 1);
       return newFiles;
     });
   }, []);
 
+  // Duplicate handling: skip drops the file, keep uploads it anyway
+  const handleSkipDuplicates = useCallback((ids: string[]) => {
+    setFiles(prev => prev.filter((item) => {
+      if (!ids.includes(item.id)) return true;
+      releasePreviews(item);
+      return false;
+    }));
+  }, []);
+
+  const handleKeepDuplicates = useCallback((ids: string[]) => {
+    setFiles(prev => prev.map(item => (ids.includes(item.id) ? { ...item, duplicates: [] } : item)));
+  }, []);
+
   const handleTitleChange = useCallback((index: number, newTitle: string) => {
     setFiles(prev => {
       const newFiles = [...prev];
@@ -277,6 +822,84 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
     });
   }, []);
 
+  const handleDateChange = useCallback((index: number, date: Date, datePrecision: DatePrecision) => {
+    setFiles(prev => {
+      const newFiles = [...prev];
+      newFiles[index] = { ...newFiles[index], date, datePrecision, dateEdited: true };
+      return newFiles;
+    });
+  }, []);
+
+  const handleDescriptionChange = useCallback((index: number, description: string) => {
+    setFiles(prev => {
+      const newFiles = [...prev];
+      newFiles[index] = { ...newFiles[index], description };
+      return newFiles;
+    });
+  }, []);
+
+  const handleCaptionChange = useCallback((index: number, caption: string) => {
+    setFiles(prev => {
+      const newFiles = [...prev];
+      newFiles[index] = { ...newFiles[index], caption };
+      return newFiles;
+    });
+  }, []);
+
+  const handleTagsChange = useCallback((index: number, tags: string[]) => {
+    setFiles(prev => {
+      const newFiles = [...prev];
+      newFiles[index] = { ...newFiles[index], tags };
+      return newFiles;
+    });
+  }, []);
+
+  // Adds the batch tags to every file, keeping the tags each already has
+  const handleApplyBatchTags = () => {
+    setFiles(prev => prev.map(item => ({
+      ...item,
+      tags: Array.from(new Set([...item.tags, ...batchTags])).slice(0, MAX_TAGS),
+    })));
+    setBatchTags([]);
+  };
+
+  // Thumbnail choice for a video: a frame, or an image instead of one
+  const handleThumbnailTimeChange = useCallback((index: number, time: number) => {
+    setFiles(prev => {
+      const newFiles = [...prev];
+      newFiles[index] = { ...newFiles[index], thumbnailTime: time };
+      return newFiles;
+    });
+  }, []);
+
+  const handleThumbnailImageChange = useCallback((index: number, image: File | null) => {
+    setFiles(prev => {
+      const newFiles = [...prev];
+      const { thumbnailImage } = newFiles[index];
+      if (thumbnailImage) {
+        URL.revokeObjectURL(thumbnailImage.preview);
+      }
+      newFiles[index] = {
+        ...newFiles[index],
+        thumbnailImage: image ? { file: image, preview: URL.createObjectURL(image) } : null,
+      };
+      return newFiles;
+    });
+  }, []);
+
+  const handleVideoDuration = useCallback((id: string, duration: number) => {
+    setFiles(prev => prev.map(item => (item.id === id ? { ...item, videoDuration: duration } : item)));
+  }, []);
+
+  // Lets the uploader leave out where a photo was taken
+  const handleRemoveLocation = useCallback((index: number) => {
+    setFiles(prev => {
+      const newFiles = [...prev];
+      newFiles[index] = { ...newFiles[index], location: null, locationEdited: true };
+      return newFiles;
+    });
+  }, []);
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -295,6 +918,233 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
     }
   };
 
+  // Updates the file's and the batch's progress while `bytesInFlight` of the
+  // current part of file `id` are sent, along with speed and time remaining
+  const reportProgress = (id: string, bytesInFlight: number) => {
+    const bytes = fileBytes.current[id];
+    const fileUploaded = bytes.done + bytesInFlight;
+    setFileProgress(prev => ({ ...prev, [id]: (fileUploaded / (bytes.total || 1)) * 100 }));
+
+    const uploaded = uploadedSize.current + bytesInFlight;
+    setUploadProgress((uploaded / (totalSize.current || 1)) * 100);
+
+    const now = Date.now();
+    const samples = progressSamples.current;
+    samples.push({ time: now, bytes: uploaded });
+    while (samples.length > 2 && now - samples[1].time > SPEED_WINDOW_MS) {
+      samples.shift();
+    }
+
+    const [oldest] = samples;
+    const elapsed = (now - oldest.time) / 1000;
+    if (elapsed < 1) return;
+
+    const speed = Math.max(uploaded - oldest.bytes, 0) / elapsed;
+    const remaining = Math.max(totalSize.current - uploaded, 0);
+    setUploadSpeed(`${formatBytes(speed)}/s`);
+    setRemainingSize(formatBytes(remaining));
+    setTimeRemaining(speed > 0 ? formatDuration(remaining / speed) : '');
+  };
+
+  // Forgets what was sent of file `id` before it goes up again
+  const resetFileProgress = (id: string, size: number) => {
+    const bytes = fileBytes.current[id];
+    uploadedSize.current -= bytes.done;
+    totalSize.current -= bytes.total - size;
+    fileBytes.current[id] = { done: 0, total: size };
+    reportProgress(id, 0);
+  };
+
+  // Sends one part of file `id` through a resumable upload and returns its
+  // object path, also recorded in `uploaded` for rolling back
+  const uploadFile = async (file: File, id: string, uploaded: string[]) => {
+    const path = await uploadResumable(file, {
+      onProgress: (bytesUploaded) => reportProgress(id, bytesUploaded),
+    });
+    uploaded.push(path);
+    uploadedSize.current += file.size;
+    fileBytes.current[id].done += file.size;
+    reportProgress(id, 0);
+    return path;
+  };
+
+  // The JPEG copy of a HEIC photo. Imported photos are only converted once
+  // unpacked for the upload.
+  const getHeicConversion = (file: File, id: string) => {
+    if (!(id in heicConversions.current) && isHeic(file)) {
+      heicConversions.current[id] = convertHeic(file).catch((error) => {
+        console.error('Error converting HEIC:', error);
+        return null;
+      });
+    }
+    return heicConversions.current[id];
+  };
+
+  // What a photo is shown from: the JPEG copy of a HEIC photo, else the file
+  const getDisplaySource = async (file: File, id: string) => (await getHeicConversion(file, id)) || file;
+
+  // Photos go up as a resized display version plus the untouched original;
+  // `original` stays empty when the photo is already fine for display
+  const uploadPhoto = async (file: File, id: string, uploaded: string[]) => {
+    // HEIC photos are displayed from their JPEG copy and always keep the original
+    const converted = await getHeicConversion(file, id);
+    const display = await optimizeImage(converted || file) ?? converted ?? null;
+    if (!display) {
+      return { upload: await uploadFile(file, id, uploaded), original: '' };
+    }
+    totalSize.current += display.size;
+    fileBytes.current[id].total += display.size;
+    return { upload: await uploadFile(display, id, uploaded), original: await uploadFile(file, id, uploaded) };
+  };
+
+  // Uploads one file and creates its memory. An attempt that fails discards
+  // what it uploaded, so the retry starts clean.
+  const uploadSingle = (item: FileWithTitle) => withRetries(async () => {
+    const { title, description, date, datePrecision, location, hash, tags, thumbnailTime, thumbnailImage, id } = item;
+    const file = await resolveFile(item);
+    resetFileProgress(id, file.size);
+    const uploaded: string[] = [];
+    try {
+      const form = new FormData();
+      form.append('title', title);
+      appendDescription(form, description);
+      appendDate(form, date, datePrecision);
+      form.append('hash', hash || await hashFile(file));
+      appendTags(form, tags);
+      appendLocation(form, location);
+
+      if (file.type.startsWith('image/')) {
+        const { upload, original } = await uploadPhoto(file, id, uploaded);
+        form.append('type', 'photo');
+        form.append('upload', upload);
+        form.append('original', original);
+        appendSize(form, await readImageSize(await getDisplaySource(file, id)));
+      } else {
+        const { duration, size, codec } = await readVideoMetadata(file);
+        form.append('type', 'video');
+        if (duration) form.append('duration', duration);
+        if (codec) form.append('codec', codec);
+        appendSize(form, size);
+        appendThumbnails(form, thumbnailImage
+          ? await createImageThumbnails(thumbnailImage.file)
+          : await createVideoThumbnails(file, thumbnailTime));
+        form.append('upload', await uploadFile(file, id, uploaded));
+      }
+
+      await uploadMemory(form);
+    } catch (error) {
+      await discardUploads(uploaded);
+      throw error;
+    }
+  });
+
+  // Uploads the photos and videos of an album, then creates it as one
+  // memory. Files already in storage are kept between attempts, so a retry
+  // only sends the rest; if the album can't be created at all, they are all
+  // discarded.
+  const uploadAlbum = async (albumFiles: FileWithTitle[], { title, description, tags, date }: AlbumDetails) => {
+    // Besides where each file went, what the album form needs of it is read
+    // while the file is at hand, so an imported file is unpacked only once
+    const sent = new Map<string, {
+      upload: string;
+      original: string;
+      paths: string[];
+      hash: string;
+      size: MediaSize | null;
+      video: (Pick<VideoMetadata, 'duration' | 'codec'> & { thumbnails: ThumbnailImage[] }) | null;
+    }>();
+    const sentPaths = () => Array.from(sent.values()).flatMap(({ paths }) => paths);
+
+    try {
+      await withRetries(async () => {
+        for (const [index, item] of albumFiles.entries()) {
+          const { hash, thumbnailTime, thumbnailImage, id } = item;
+          if (sent.has(id)) continue;
+          const file = await resolveFile(item);
+          resetFileProgress(id, file.size);
+          const uploaded: string[] = [];
+          try {
+            if (file.type.startsWith('image/')) {
+              sent.set(id, {
+                ...await uploadPhoto(file, id, uploaded),
+                paths: uploaded,
+                hash: hash || await hashFile(file),
+                // Only the cover's size is sent
+                size: index === 0 ? await readImageSize(await getDisplaySource(file, id)) : null,
+                video: null,
+              });
+            } else {
+              const { duration, size, codec } = await readVideoMetadata(file);
+              const thumbnails = thumbnailImage
+                ? await createImageThumbnails(thumbnailImage.file)
+                : await createVideoThumbnails(file, thumbnailTime);
+              sent.set(id, {
+                upload: await uploadFile(file, id, uploaded),
+                original: '',
+                paths: uploaded,
+                hash: hash || await hashFile(file),
+                size,
+                video: { duration, codec, thumbnails },
+              });
+            }
+          } catch (error) {
+            await discardUploads(uploaded);
+            throw error;
+          }
+        }
+
+        // First file becomes cover, and the album takes its type
+        const form = new FormData();
+        const [cover] = albumFiles;
+        form.append('title', title);
+        if (date) {
+          appendDate(form, date.date, date.precision);
+        } else {
+          appendDate(form, cover.date, cover.datePrecision);
+        }
+        appendDescription(form, description);
+        appendTags(form, tags);
+        appendLocation(form, albumFiles.find(f => f.location)?.location);
+        for (const [index, { caption, id }] of albumFiles.entries()) {
+          const { upload, original, hash, size, video } = sent.get(id)!;
+          if (!video) {
+            form.append('item_type', 'photo');
+            if (index === 0) {
+              form.append('type', 'photo');
+              appendSize(form, size);
+            }
+          } else {
+            form.append('item_type', 'video');
+            if (video.duration) form.append(`duration_${index}`, video.duration);
+            appendThumbnails(form, video.thumbnails, `_${index}`);
+            if (index === 0) {
+              form.append('type', 'video');
+              if (video.codec) form.append('codec', video.codec);
+              appendSize(form, size);
+            }
+          }
+          form.append('upload', upload);
+          form.append('original', original);
+          form.append('caption', caption);
+          form.append('hash', hash);
+        }
+
+        try {
+          await uploadMemory(form);
+        } catch (error) {
+          // The server removes the files of a memory it failed to create;
+          // after a dropped connection they may still be there
+          await discardUploads(sentPaths());
+          sent.clear();
+          throw error;
+        }
+      });
+    } catch (error) {
+      await discardUploads(sentPaths());
+      throw error;
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (files.length === 0) return;
@@ -302,155 +1152,110 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
       setError('Please enter album title');
       return;
     }
+    if (files.some(f => f.duplicates.length > 0)) {
+      setError('Choose skip or keep for each duplicate file first.');
+      return;
+    }
+
+    if (isAlbumMode && files.length < 2) {
+      setError('Album needs at least 2 files');
+      return;
+    }
 
     setIsUploading(true);
     setError(null);
+    setUploadSummary(null);
+    setFailedFiles({});
     setUploadProgress(0);
+    setFileProgress({});
     uploadStartTime.current = Date.now();
-    totalSize.current = files.reduce((acc, file) => acc + file.file.size, 0);
+    totalSize.current = files.reduce((acc, item) => acc + getFileSize(item), 0);
     uploadedSize.current = 0;
+    fileBytes.current = Object.fromEntries(files.map(item => [item.id, { done: 0, total: getFileSize(item) }]));
+    progressSamples.current = [{ time: uploadStartTime.current, bytes: 0 }];
 
+    // One failing file no longer stops the batch: each is tried on its own
+    // and the ones that still fail stay in the modal to retry
+    const failed: Record<string, string> = {};
+    let succeeded = 0;
+    let failedCount = 0;
     try {
-      // Album mode: upload all photos as one memory with album_photos
       if (isAlbumMode) {
-        const imageFiles = files.filter(f => f.file.type.startsWith('image/'));
-        if (imageFiles.length < 2) {
-          setError('Album needs at least 2 photos');
-          setIsUploading(false);
-          return;
+        try {
+          await uploadAlbum(files, { title: albumTitle, description: albumDescription, tags: albumTags, date: albumDate });
+          succeeded = 1;
+        } catch (error) {
+          console.error('Upload error:', error);
+          files.forEach(({ id }) => { failed[id] = getErrorMessage(error); });
+          failedCount = 1;
         }
-
-        const albumPhotos: { src: string }[] = [];
-        let coverSrc = '';
-
-        for (let i = 0; i < imageFiles.length; i++) {
-          const { file } = imageFiles[i];
-          const fileExt = file.name.split('.').pop();
-          const fileName = `${uuidv4()}.${fileExt}`;
-
-          const { error: uploadError, data: urlData } = await supabase.storage
-            .from('memories')
-            .upload(fileName, file);
-
-          if (uploadError) throw uploadError;
-          if (!urlData?.path) throw new Error('Failed to get upload URL');
-
-          const { data: publicUrlData } = supabase.storage
-            .from('memories')
-            .getPublicUrl(urlData.path);
-
-          if (!publicUrlData?.publicUrl) throw new Error('Failed to get public URL');
-
-          // First photo becomes cover
-          if (i === 0) {
-            coverSrc = publicUrlData.publicUrl;
+      } else {
+        // Folders as albums: each folder goes up as one album, titled after
+        // it and tagged with what its files were tagged
+        for (const { folder, items } of folderAlbums) {
+          try {
+            await uploadAlbum(items, {
+              title: getFolderAlbumTitle(folder),
+              description: folderAlbumDetails[folder]?.description || '',
+              tags: Array.from(new Set(items.flatMap(({ tags }) => tags))).slice(0, MAX_TAGS),
+              date: null,
+            });
+            succeeded += 1;
+          } catch (error) {
+            console.error('Upload error:', error);
+            items.forEach(({ id }) => { failed[id] = getErrorMessage(error); });
+            failedCount += 1;
           }
-          albumPhotos.push({ src: publicUrlData.publicUrl });
-
-          setUploadProgress(((i + 1) / imageFiles.length) * 100);
         }
 
-        // Save album as single memory
-        const { error: dbError } = await supabase
-          .from('memories')
-          .insert([{
-            title: albumTitle,
-            type: 'photo',
-            src: coverSrc,
-            thumbnail: null,
-            date: new Date().toISOString(),
-            album_photos: albumPhotos,
-          }]);
-
-        if (dbError) throw dbError;
-      } else {
-        // Normal mode: upload each file separately
-        for (const fileWithTitle of files) {
-          const { file, title } = fileWithTitle;
-
-          const fileExt = file.name.split('.').pop();
-          const fileName = `${uuidv4()}.${fileExt}`;
-          const filePath = `${fileName}`;
-
-          const { error: uploadError, data: urlData } = await supabase.storage
-            .from('memories')
-            .upload(filePath, file);
-
-          if (uploadError) throw uploadError;
-          if (!urlData?.path) throw new Error('Failed to get upload URL');
-
-          const { data: publicUrlData } = supabase.storage
-            .from('memories')
-            .getPublicUrl(urlData.path);
-
-          if (!publicUrlData?.publicUrl) throw new Error('Failed to get public URL');
-
-          let memoryData;
-          if (file.type.startsWith('image/')) {
-            memoryData = {
-              title,
-              type: 'photo',
-              src: publicUrlData.publicUrl,
-              thumbnail: null,
-              date: new Date().toISOString(),
-              album_photos: null,
-            };
-          } else {
-            const thumbnailFileName = `thumbnail_${fileName}`;
-            const thumbnailBlob = await generateVideoThumbnail(file);
-            
-            const { error: thumbnailError } = await supabase.storage
-              .from('memories')
-              .upload(thumbnailFileName, thumbnailBlob);
-
-            if (thumbnailError) throw thumbnailError;
-
-            const { data: thumbnailUrlData } = supabase.storage
-              .from('memories')
-              .getPublicUrl(thumbnailFileName);
-
-            if (!thumbnailUrlData?.publicUrl) throw new Error('Failed to get thumbnail URL');
-
-            memoryData = {
-              title,
-              type: 'video',
-              src: filePath,
-              thumbnail: thumbnailUrlData.publicUrl,
-              date: new Date().toISOString(),
-              album_photos: null,
-            };
+        const inFolderAlbum = new Set(folderAlbums.flatMap(({ items }) => items.map(({ id }) => id)));
+        for (const item of files.filter(({ id }) => !inFolderAlbum.has(id))) {
+          try {
+            await uploadSingle(item);
+            succeeded += 1;
+          } catch (error) {
+            console.error('Upload error:', error);
+            failed[item.id] = getErrorMessage(error);
+            failedCount += 1;
           }
+        }
+      }
+      setUploadProgress(100);
 
-          const { error: dbError } = await supabase
-            .from('memories')
-            .insert([memoryData]);
+      if (succeeded > 0) {
+        onUploadComplete();
+      }
 
-          if (dbError) throw dbError;
+      if (failedCount === 0) {
+        // Clean up previews
+        files.forEach(releasePreviews);
 
-          const progress = ((files.indexOf(fileWithTitle) + 1) / files.length) * 100;
-          setUploadProgress(progress);
-        }
+        onClose();
+        setFiles([]);
+        setAlbumTitle('');
+        setAlbumDate(null);
+        setAlbumTags([]);
+        setAlbumDescription('');
+        setBatchTags([]);
+        setFoldersAsAlbums(false);
+        setFolderAlbumDetails({});
+        setIsAlbumMode(false);
+        return;
       }
 
-      // Clean up previews
-      files.forEach(file => {
-        if (file.file.preview) {
-          URL.revokeObjectURL(file.file.preview);
-        }
-      });
-      
-      onUploadComplete();
-      onClose();
-      setFiles([]);
-      setAlbumTitle('');
-      setIsAlbumMode(false);
-    } catch (error) {
-      console.error('Upload error:', error);
-      setError('Error uploading files. Please try again.');
+      // Keep only what failed, so uploading again retries just those
+      setFiles(prev => prev.filter((item) => {
+        if (failed[item.id]) return true;
+        releasePreviews(item);
+        return false;
+      }));
+      setFailedFiles(failed);
+      setUploadSummary({ succeeded, failed: failedCount });
     } finally {
       setIsUploading(false);
       setUploadSpeed('');
       setRemainingSize('');
+      setTimeRemaining('');
     }
   };
 
@@ -561,7 +1366,7 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                       Album
                     </h3>
                     <p className={`text-sm mt-1 ${isAlbumMode ? 'text-purple-200' : 'text-gray-500'}`}>
-                      Gabungkan foto jadi 1 album
+                      Gabungkan foto & video jadi 1 album
                     </p>
                   </button>
                 </div>
@@ -586,6 +1391,34 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                         placeholder="Contoh: Liburan di Bali 2024"
                         required={isAlbumMode}
                       />
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4 mb-2">
+                        Tanggal
+                      </label>
+                      <MemoryDatePicker
+                        value={albumDate?.date || albumCover?.date || new Date()}
+                        precision={albumDate?.precision || albumCover?.datePrecision || 'day'}
+                        onChange={(date, precision) => setAlbumDate({ date, precision })}
+                      />
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4 mb-2">
+                        Tag
+                      </label>
+                      <TagInput
+                        tags={albumTags}
+                        onChange={setAlbumTags}
+                        suggestions={tagSuggestions}
+                        placeholder="Contoh: liburan, keluarga"
+                      />
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4 mb-2">
+                        Cerita
+                      </label>
+                      <textarea
+                        value={albumDescription}
+                        onChange={(e) => setAlbumDescription(e.target.value)}
+                        rows={3}
+                        maxLength={MAX_DESCRIPTION_LENGTH}
+                        className="w-full px-4 py-3 border-2 border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:border-purple-500 focus:ring-2 focus:ring-purple-500/20 transition-all outline-none resize-y"
+                        placeholder="Ceritakan kenangan ini... (**tebal**, *miring*, [tautan](https://...))"
+                      />
                     </motion.div>
                   )}
                 </AnimatePresence>
@@ -606,12 +1439,28 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                 >
                   <input
                     type="file"
-                    accept="image/*,video/*"
+                    accept="image/*,video/*,.heic,.heif"
                     onChange={handleFileChange}
                     multiple
                     className="hidden"
                     id="file-upload"
                   />
+                  <input
+                    type="file"
+                    // React has no prop for the directory picker
+                    ref={(input) => { if (input) input.webkitdirectory = true; }}
+                    onChange={handleFolderChange}
+                    className="hidden"
+                    id="folder-upload"
+                  />
+                  <input
+                    type="file"
+                    accept=".zip,application/zip"
+                    onChange={handleArchiveChange}
+                    multiple
+                    className="hidden"
+                    id="archive-upload"
+                  />
                   <label
                     htmlFor="file-upload"
                     className="cursor-pointer flex flex-col items-center space-y-3"
@@ -637,7 +1486,10 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                         }
                       </p>
                       <p className="text-sm text-gray-500 dark:text-gray-400">
-                        Mendukung foto dan video • Maks 15MB total
+                        Mendukung foto dan video • Maks {MAX_UPLOAD_SIZE / (1024 * 1024 * 1024)}GB per file
+                      </p>
+                      <p className="text-xs text-gray-400 dark:text-gray-500">
+                        Folder juga bisa di-drag, atau tempel gambar dengan Ctrl+V
                       </p>
                       {files.length > 0 && (
                         <div className="mt-3 inline-flex items-center gap-2 px-4 py-2 bg-purple-100 dark:bg-purple-900/40 rounded-full">
@@ -645,14 +1497,81 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                             {files.length} file dipilih
                           </span>
                           <span className="text-xs text-purple-500 dark:text-purple-400">
-                            ({(files.reduce((acc, file) => acc + file.file.size, 0) / (1024 * 1024)).toFixed(1)} MB)
+                            ({(files.reduce((acc, file) => acc + getFileSize(file), 0) / (1024 * 1024)).toFixed(1)} MB)
                           </span>
                         </div>
                       )}
                     </div>
                   </label>
+                  <label
+                    htmlFor="folder-upload"
+                    className="mt-4 inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium text-purple-600 dark:text-purple-300 bg-white dark:bg-gray-800 border border-purple-200 dark:border-purple-800 hover:bg-purple-50 dark:hover:bg-purple-900/30 cursor-pointer transition-colors"
+                  >
+                    <FolderIcon className="w-4 h-4" />
+                    Pilih folder
+                  </label>
+                  <label
+                    htmlFor="archive-upload"
+                    className="mt-4 ml-2 inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium text-purple-600 dark:text-purple-300 bg-white dark:bg-gray-800 border border-purple-200 dark:border-purple-800 hover:bg-purple-50 dark:hover:bg-purple-900/30 cursor-pointer transition-colors"
+                  >
+                    <ArchiveBoxArrowDownIcon className="w-4 h-4" />
+                    Impor ZIP / Google Takeout
+                  </label>
                 </div>
 
+                {importStatus && (
+                  <div className="mt-4 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-purple-500" />
+                    {importStatus}
+                  </div>
+                )}
+
+                {importPlan && (
+                  <div className="mt-4">
+                    <ImportPreview
+                      plan={importPlan}
+                      isExtracting={!!importStatus}
+                      onConfirm={handleConfirmImport}
+                      onCancel={() => setImportPlan(null)}
+                    />
+                  </div>
+                )}
+
+                {/* Folders as albums */}
+                {hasFolders && !isAlbumMode && (
+                  <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl">
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={foldersAsAlbums}
+                        onChange={(e) => setFoldersAsAlbums(e.target.checked)}
+                        className="w-4 h-4 accent-purple-500"
+                      />
+                      Jadikan tiap subfolder album sendiri
+                    </label>
+                    {(foldersAsAlbums || folderAlbums.length > 0) && (
+                      folderAlbums.length > 0 ? (
+                        <div className="flex flex-wrap gap-1.5 mt-2">
+                          {folderAlbums.map(({ folder, items }) => (
+                            <span
+                              key={folder}
+                              className="inline-flex items-center gap-1 px-2 py-1 bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 rounded-full text-xs"
+                              title={folder}
+                            >
+                              <Square2StackIcon className="w-3 h-3" />
+                              {getFolderAlbumTitle(folder)} • {items.length} file
+                            </span>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                          Tidak ada folder dengan 2 file atau lebih; semua file diupload satu per satu.
+                        </p>
+                      )
+                    )}
+                  </div>
+                )}
+
                 {/* Album Mode File List */}
                 {files.length > 0 && isAlbumMode && (
                   <motion.div 
@@ -662,7 +1581,7 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                   >
                     <div className="flex items-center gap-2 mb-3 text-sm text-gray-600 dark:text-gray-400">
                       <Bars3Icon className="w-4 h-4" />
-                      <span>Drag foto untuk mengatur urutan • Foto pertama jadi cover</span>
+                      <span>Drag foto/video untuk mengatur urutan • File pertama jadi cover</span>
                     </div>
                     <DndContext
                       sensors={sensors}
@@ -676,7 +1595,13 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                               key={file.id}
                               file={file}
                               index={index}
+                              progress={fileProgress[file.id]}
+                              failed={!!failedFiles[file.id]}
                               onRemove={() => handleRemoveFile(index)}
+                              onCaptionChange={(caption) => handleCaptionChange(index, caption)}
+                              onThumbnailTimeChange={(time) => handleThumbnailTimeChange(index, time)}
+                              onThumbnailImageChange={(image) => handleThumbnailImageChange(index, image)}
+                              onVideoDuration={(duration) => handleVideoDuration(file.id, duration)}
                             />
                           ))}
                         </div>
@@ -685,6 +1610,28 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                   </motion.div>
                 )}
 
+                {/* Tags for the whole batch */}
+                {files.length > 1 && !isAlbumMode && (
+                  <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Tag untuk semua file
+                    </label>
+                    <div className="flex items-start gap-2">
+                      <div className="flex-1">
+                        <TagInput tags={batchTags} onChange={setBatchTags} suggestions={tagSuggestions} />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleApplyBatchTags}
+                        disabled={batchTags.length === 0}
+                        className="px-3 py-2 rounded-xl text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-50 transition-colors"
+                      >
+                        Terapkan
+                      </button>
+                    </div>
+                  </div>
+                )}
+
                 {/* Normal Mode File List */}
                 {files.length > 0 && !isAlbumMode && (
                   <motion.div 
@@ -697,36 +1644,48 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                         key={file.id}
                         initial={{ opacity: 0, scale: 0.9 }}
                         animate={{ opacity: 1, scale: 1 }}
-                        className="relative bg-gray-50 dark:bg-gray-800 rounded-2xl overflow-hidden border border-gray-200 dark:border-gray-700"
+                        className={`relative bg-gray-50 dark:bg-gray-800 rounded-2xl border ${failedFiles[file.id] ? 'border-red-500' : 'border-gray-200 dark:border-gray-700'}`}
                       >
-                        <div className="relative group">
-                          {file.file.type.startsWith('image/') ? (
+                        {/* Clipped here rather than on the card, so tag suggestions can overflow it */}
+                        <div className="relative group rounded-t-2xl overflow-hidden">
+                          {/* Imported videos are previewed from a frame taken while they were unpacked */}
+                          {file.file.type.startsWith('image/') || (file.archiveItem && !file.thumbnailImage) ? (
                             <div className="relative w-full h-40">
-                              <Image
-                                src={file.file.preview || ''}
-                                alt={file.title}
-                                fill
-                                className="object-cover"
-                                loading="lazy"
-                                quality={75}
-                                sizes="(max-width: 640px) 100vw, 50vw"
-                              />
+                              {file.file.preview ? (
+                                <Image
+                                  src={file.file.preview}
+                                  alt={file.title}
+                                  fill
+                                  className="object-cover"
+                                  loading="lazy"
+                                  quality={75}
+                                  sizes="(max-width: 640px) 100vw, 50vw"
+                                />
+                              ) : (
+                                <PreviewPlaceholder file={file} />
+                              )}
                             </div>
                           ) : (
-                            <div className="relative w-full h-40">
-                              <video
-                                src={file.file.preview}
-                                className="w-full h-full object-cover"
-                                muted
-                                preload="metadata"
-                              />
-                              <div className="absolute inset-0 flex items-center justify-center">
-                                <div className="p-3 bg-black/50 rounded-full">
-                                  <VideoCameraIcon className="w-6 h-6 text-white" />
-                                </div>
-                              </div>
+                            <div className="relative w-full h-40 bg-black">
+                              {/* Shows the thumbnail as it will be: the picked frame or image */}
+                              {file.thumbnailImage ? (
+                                <Image
+                                  src={file.thumbnailImage.preview}
+                                  alt={file.title}
+                                  fill
+                                  className="object-contain"
+                                  sizes="(max-width: 640px) 100vw, 50vw"
+                                />
+                              ) : (
+                                <VideoFrame
+                                  src={file.file.preview || ''}
+                                  time={file.thumbnailTime}
+                                  onDuration={(duration) => handleVideoDuration(file.id, duration)}
+                                />
+                              )}
                             </div>
                           )}
+                          <FileProgressBar progress={fileProgress[file.id]} />
                           <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
                           <button
                             type="button"
@@ -743,6 +1702,17 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                               <><VideoCameraIcon className="w-3 h-3" /> Video</>
                             )}
                           </div>
+                          {file.duplicates.length > 0 && (
+                            <div className="absolute bottom-3 left-2 px-2 py-1 bg-amber-500 rounded-full text-xs text-white font-medium shadow">
+                              Duplikat
+                            </div>
+                          )}
+                          {folderAlbums.some(({ folder }) => folder === file.folder) && (
+                            <div className="absolute bottom-3 right-2 max-w-[60%] px-2 py-1 bg-purple-500 rounded-full text-xs text-white font-medium shadow flex items-center gap-1">
+                              <Square2StackIcon className="w-3 h-3 flex-shrink-0" />
+                              <span className="truncate">{getFolderAlbumTitle(file.folder)}</span>
+                            </div>
+                          )}
                         </div>
                         <div className="p-3">
                           <input
@@ -753,15 +1723,90 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                             placeholder="Judul kenangan..."
                             required
                           />
+                          <div className="mt-2">
+                            <MemoryDatePicker
+                              value={file.date}
+                              precision={file.datePrecision}
+                              onChange={(date, precision) => handleDateChange(index, date, precision)}
+                            />
+                          </div>
+                          <div className="mt-2">
+                            <TagInput
+                              tags={file.tags}
+                              onChange={(tags) => handleTagsChange(index, tags)}
+                              suggestions={tagSuggestions}
+                            />
+                          </div>
+                          <textarea
+                            value={file.description}
+                            onChange={(e) => handleDescriptionChange(index, e.target.value)}
+                            rows={2}
+                            maxLength={MAX_DESCRIPTION_LENGTH}
+                            className="w-full mt-2 px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:border-purple-500 focus:ring-2 focus:ring-purple-500/20 transition-all outline-none resize-y"
+                            placeholder="Cerita di baliknya... (markdown: **tebal**, *miring*)"
+                          />
+                          {file.file.type.startsWith('video/') && (
+                            <ThumbnailPicker
+                              file={file}
+                              className="mt-2"
+                              onTimeChange={(time) => handleThumbnailTimeChange(index, time)}
+                              onImageChange={(image) => handleThumbnailImageChange(index, image)}
+                            />
+                          )}
+                          {file.location && (
+                            <div className="flex items-center gap-1.5 mt-2 text-xs text-purple-600 dark:text-purple-400">
+                              <MapPinIcon className="w-3.5 h-3.5 flex-shrink-0" />
+                              <span className="truncate">
+                                {file.location.latitude.toFixed(4)}, {file.location.longitude.toFixed(4)}
+                              </span>
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveLocation(index)}
+                                className="ml-auto p-0.5 rounded-full text-gray-400 hover:text-red-500 transition-colors"
+                                aria-label="Hapus lokasi"
+                              >
+                                <XMarkIcon className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                          )}
                           <p className="text-xs text-gray-400 mt-1.5 truncate">
-                            {file.file.name} • {(file.file.size / (1024 * 1024)).toFixed(2)} MB
+                            {file.file.name} • {(getFileSize(file) / (1024 * 1024)).toFixed(2)} MB
                           </p>
+                          {failedFiles[file.id] && (
+                            <p className="text-xs text-red-500 mt-1 truncate" title={failedFiles[file.id]}>
+                              Gagal: {failedFiles[file.id]}
+                            </p>
+                          )}
                         </div>
                       </motion.div>
                     ))}
                   </motion.div>
                 )}
 
+              {uploadSummary && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl"
+                >
+                  <p className="text-sm font-medium text-red-600 dark:text-red-400">
+                    {uploadSummary.succeeded > 0 && `${uploadSummary.succeeded} berhasil diupload, `}
+                    {isAlbumMode ? 'album gagal diupload' : `${uploadSummary.failed} gagal diupload`} setelah {UPLOAD_ATTEMPTS} kali percobaan.
+                  </p>
+                  <p className="text-xs text-red-500 dark:text-red-400 mt-1">
+                    File yang gagal masih ada di bawah; periksa koneksi lalu coba lagi.
+                  </p>
+                </motion.div>
+              )}
+
+              <DuplicateWarning
+                files={files
+                  .filter(f => f.duplicates.length > 0)
+                  .map(({ id, file, duplicates }) => ({ id, name: file.name, duplicates }))}
+                onSkip={handleSkipDuplicates}
+                onKeep={handleKeepDuplicates}
+              />
+
               {error && (
                 <motion.div
                   initial={{ opacity: 0, y: -10 }}
@@ -801,7 +1846,12 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                   {uploadSpeed && (
                     <div className="flex justify-between text-xs text-purple-600 dark:text-purple-400 mt-2">
                       <span>Kecepatan: {uploadSpeed}</span>
-                      {remainingSize && <span>Sisa: {remainingSize}</span>}
+                      {remainingSize && (
+                        <span>
+                          Sisa: {remainingSize}
+                          {timeRemaining && ` • ~${timeRemaining}`}
+                        </span>
+                      )}
                     </div>
                   )}
                 </motion.div>
@@ -829,6 +1879,11 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
                       </svg>
                       <span>Mengupload...</span>
                     </>
+                  ) : uploadSummary ? (
+                    <>
+                      <ArrowPathIcon className="w-5 h-5" />
+                      <span>Coba lagi yang gagal ({files.length} file)</span>
+                    </>
                   ) : (
                     <>
                       <CloudArrowUpIcon className="w-5 h-5" />
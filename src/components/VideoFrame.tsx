@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { defaultThumbnailTime } from '@/lib/videoThumbnail';
+
+interface VideoFrameProps {
+  src: string;
+  // Seconds into the video; null shows the default thumbnail frame
+  time: number | null;
+  onDuration?: (duration: number) => void;
+  className?: string;
+}
+
+// A paused video showing one frame, for picking the thumbnail
+export function VideoFrame({ src, time, onDuration, className = '' }: VideoFrameProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || duration === null) return;
+    video.currentTime = time ?? defaultThumbnailTime(duration);
+  }, [time, duration]);
+
+  return (
+    <video
+      ref={videoRef}
+      src={src}
+      crossOrigin="anonymous"
+      className={`w-full h-full object-contain bg-black ${className}`}
+      muted
+      playsInline
+      preload="auto"
+      onLoadedMetadata={(e) => {
+        setDuration(e.currentTarget.duration);
+        onDuration?.(e.currentTarget.duration);
+      }}
+    />
+  );
+}
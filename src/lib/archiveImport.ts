@@ -0,0 +1,261 @@
+// Imports ZIP archives, including Google Takeout exports of Google Photos.
+// The archives are only read in the browser to plan the import; the files
+// then join the upload queue still packed, and each is unpacked only while it
+// is hashed or uploaded, so a multi-GB export is never held in memory.
+
+import type { FileEntry } from '@zip.js/zip.js';
+import type { GeoPoint } from '@/lib/mediaMetadata';
+import { getFolderName } from '@/lib/folderUpload';
+
+// What a Takeout sidecar says about a photo or video; null where it says
+// nothing, so the file's own EXIF data is used instead
+export interface ImportMetadata {
+  title: string | null;
+  description: string | null;
+  date: Date | null;
+  location: GeoPoint | null;
+}
+
+export interface ImportItem {
+  // Path inside the archive
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+  // Album the item belongs to, empty when it is uploaded on its own
+  folder: string;
+  metadata: ImportMetadata;
+  entry: FileEntry;
+}
+
+export interface ImportAlbum {
+  folder: string;
+  title: string;
+  description: string;
+  items: ImportItem[];
+}
+
+export interface ImportPlan {
+  isTakeout: boolean;
+  albums: ImportAlbum[];
+  singles: ImportItem[];
+  skipped: { path: string; reason: string }[];
+}
+
+// Archives hold no MIME types; the upload needs them to tell photos from videos
+const MEDIA_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  '3gp': 'video/3gpp',
+  mkv: 'video/x-matroska',
+  avi: 'video/x-msvideo',
+};
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+// Takeout keeps the photos of each year in a folder of their own; every
+// other folder with a metadata.json is an album
+const YEAR_FOLDER = /^Photos from \d{4}$/;
+
+// Takeout cuts sidecar names to this many characters before ".json"
+const SIDECAR_NAME_LIMIT = 46;
+
+// Edited copies sit next to the original and share its sidecar; the
+// original is the one imported
+const EDITED_SUFFIX = /-edited(\.[^.]+)$/i;
+
+interface TakeoutSidecar {
+  title?: string;
+  description?: string;
+  photoTakenTime?: { timestamp?: string };
+  creationTime?: { timestamp?: string };
+  geoData?: { latitude?: number; longitude?: number };
+  geoDataExif?: { latitude?: number; longitude?: number };
+}
+
+interface TakeoutAlbumMetadata {
+  title?: string;
+  description?: string;
+}
+
+const splitPath = (path: string) => {
+  const index = path.lastIndexOf('/');
+  return { folder: index === -1 ? '' : path.slice(0, index), name: path.slice(index + 1) };
+};
+
+const toDate = (timestamp: string | undefined) => {
+  const seconds = Number(timestamp);
+  return timestamp && Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : null;
+};
+
+// Takeout writes 0, 0 for photos without a position
+const toLocation = (geo: { latitude?: number; longitude?: number } | undefined): GeoPoint | null => {
+  if (typeof geo?.latitude !== 'number' || typeof geo.longitude !== 'number') return null;
+  if (geo.latitude === 0 && geo.longitude === 0) return null;
+  return { latitude: geo.latitude, longitude: geo.longitude };
+};
+
+function toMetadata(sidecar: TakeoutSidecar | undefined): ImportMetadata {
+  return {
+    title: sidecar?.title?.replace(/\.[^.]+$/, '').trim() || null,
+    description: sidecar?.description?.trim() || null,
+    date: toDate(sidecar?.photoTakenTime?.timestamp) || toDate(sidecar?.creationTime?.timestamp),
+    location: toLocation(sidecar?.geoData) || toLocation(sidecar?.geoDataExif),
+  };
+}
+
+// Names the sidecar of `name` may have. "IMG_1(1).jpg" has its counter moved
+// to the end ("IMG_1.jpg(1).json"), newer exports add
+// ".supplemental-metadata", and long names are cut short.
+function getSidecarNames(name: string): string[] {
+  const counterMatch = name.match(/^(.*)(\(\d+\))(\.[^.]+)$/);
+  const base = counterMatch ? counterMatch[1] + counterMatch[3] : name;
+  const counter = counterMatch ? counterMatch[2] : '';
+  const withoutExtension = base.replace(/\.[^.]+$/, '');
+  return [
+    `${base}.supplemental-metadata`.slice(0, SIDECAR_NAME_LIMIT),
+    base.slice(0, SIDECAR_NAME_LIMIT),
+    withoutExtension.slice(0, SIDECAR_NAME_LIMIT),
+  ].map(candidate => `${candidate}${counter}.json`);
+}
+
+async function readJson<T>(entry: FileEntry): Promise<T | undefined> {
+  const { TextWriter } = await import('@zip.js/zip.js');
+  try {
+    return JSON.parse(await entry.getData(new TextWriter())) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+// Reads the archives and works out what importing them would create,
+// without uploading anything. Takeout exports split across several ZIP files
+// are read together, as a photo's sidecar may sit in another part.
+export async function planArchiveImport(archives: File[]): Promise<ImportPlan> {
+  // Loaded only once an archive is picked
+  const { BlobReader, ZipReader } = await import('@zip.js/zip.js');
+
+  const entries: FileEntry[] = [];
+  for (const archive of archives) {
+    const reader = new ZipReader(new BlobReader(archive));
+    try {
+      for (const entry of await reader.getEntries()) {
+        if (!entry.directory) entries.push(entry);
+      }
+    } finally {
+      // The entries stay readable: they read their data through slices of
+      // the archive file, not through the reader
+      await reader.close();
+    }
+  }
+
+  const isTakeout = entries.some(({ filename }) => filename.split('/').includes('Google Photos'));
+  const jsonByPath = new Map(
+    entries.filter(({ filename }) => filename.toLowerCase().endsWith('.json')).map(entry => [entry.filename, entry]),
+  );
+
+  // Album folders, with their titles and descriptions
+  const albumFolders = new Map<string, { title: string; description: string }>();
+  const skipped: ImportPlan['skipped'] = [];
+  const candidates: { entry: FileEntry; folder: string; name: string }[] = [];
+  for (const entry of entries) {
+    const { folder, name } = splitPath(entry.filename);
+    if (name.toLowerCase().endsWith('.json')) continue;
+    // Hidden files include the `._` copies macOS adds next to each photo
+    if (!MEDIA_TYPES[getExtension(name)] || name.startsWith('.')) {
+      skipped.push({ path: entry.filename, reason: 'Bukan foto atau video' });
+      continue;
+    }
+    if (isTakeout && EDITED_SUFFIX.test(name)) {
+      skipped.push({ path: entry.filename, reason: 'Salinan hasil edit' });
+      continue;
+    }
+    candidates.push({ entry, folder, name });
+    if (folder && !albumFolders.has(folder)) {
+      const folderName = getFolderName(folder);
+      if (!isTakeout) {
+        albumFolders.set(folder, { title: folderName, description: '' });
+      } else if (!YEAR_FOLDER.test(folderName) && jsonByPath.has(`${folder}/metadata.json`)) {
+        const metadata = await readJson<TakeoutAlbumMetadata>(jsonByPath.get(`${folder}/metadata.json`)!);
+        albumFolders.set(folder, {
+          title: metadata?.title?.trim() || folderName,
+          description: metadata?.description?.trim() || '',
+        });
+      }
+    }
+  }
+
+  const items: ImportItem[] = [];
+  for (const { entry, folder, name } of candidates) {
+    let sidecar: TakeoutSidecar | undefined;
+    if (isTakeout) {
+      const sidecarPath = getSidecarNames(name)
+        .map(sidecarName => (folder ? `${folder}/${sidecarName}` : sidecarName))
+        .find(path => jsonByPath.has(path));
+      if (sidecarPath) sidecar = await readJson<TakeoutSidecar>(jsonByPath.get(sidecarPath)!);
+    }
+    items.push({
+      path: entry.filename,
+      name,
+      type: MEDIA_TYPES[getExtension(name)],
+      size: entry.uncompressedSize,
+      folder: albumFolders.has(folder) ? folder : '',
+      metadata: toMetadata(sidecar),
+      entry,
+    });
+  }
+
+  // An album needs two files; a folder holding one is uploaded on its own
+  const albums: ImportAlbum[] = [];
+  for (const [folder, details] of albumFolders) {
+    const albumItems = items.filter(item => item.folder === folder);
+    if (albumItems.length > 1) {
+      albums.push({ folder, ...details, items: albumItems });
+    } else {
+      albumItems.forEach((item) => { item.folder = ''; });
+    }
+  }
+
+  // Takeout also lists every album photo in its year folder; the album copy
+  // is the one kept
+  const inAlbums = new Set(
+    items.filter(({ folder }) => folder).map(({ name, size }) => `${name}:${size}`),
+  );
+  const singles: ImportItem[] = [];
+  for (const item of items) {
+    if (item.folder) continue;
+    if (isTakeout && inAlbums.has(`${item.name}:${item.size}`)) {
+      skipped.push({ path: item.path, reason: 'Sudah ada di album' });
+    } else {
+      singles.push(item);
+    }
+  }
+
+  return { isTakeout, albums, singles, skipped };
+}
+
+// Stands in for a planned item in the upload queue: its name, type and date,
+// but none of its contents
+export function createImportPlaceholder({ entry, name, type, metadata }: ImportItem): File {
+  const lastModified = (metadata.date || entry.lastModDate).getTime();
+  return new File([], name, { type, lastModified });
+}
+
+// Unpacks one planned item; called again for each attempt that needs it
+export async function extractImportItem({ entry, name, type, metadata }: ImportItem): Promise<File> {
+  const { BlobWriter } = await import('@zip.js/zip.js');
+  const blob = await entry.getData(new BlobWriter(type));
+  const lastModified = (metadata.date || entry.lastModDate).getTime();
+  return new File([blob], name, { type, lastModified });
+}
@@ -0,0 +1,95 @@
+// Full backups: every memory and profile row plus every stored object in one
+// ZIP, from which `npm run db:restore` rebuilds an instance
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TextReader } from '@zip.js/zip.js';
+import { MEMORIES_TABLE } from '@/lib/memories';
+import { STORAGE_BACKEND, STORAGE_BUCKET, type StorageBackend } from '@/lib/mediaUrl';
+import { streamZip } from '@/lib/memoryDownload';
+import { createSignedToken, verifySignedToken } from '@/lib/signedTokens';
+import { getStorage, type StorageAdapter } from '@/lib/storage';
+import { supabaseServer } from '@/lib/supabaseServer';
+
+// Bumped whenever the layout changes; the restore refuses versions it doesn't know
+export const BACKUP_VERSION = 1;
+// Rows and the list of files, first in the archive
+export const BACKUP_MANIFEST = 'backup.json';
+// Stored objects are kept under this folder, each at its object path
+export const BACKUP_FILES_FOLDER = 'files/';
+
+// How long a backup download link works; the download only has to start in time
+const BACKUP_LINK_MAX_AGE_MS = 5 * 60 * 1000;
+
+const PROFILES_TABLE = 'profiles';
+const ROW_BATCH = 1000;
+
+type Row = Record<string, unknown>;
+
+export interface BackupManifest {
+  version: number;
+  created_at: string;
+  // Where the files were kept, so the restore can map the URLs stored in the
+  // rows back to object paths
+  storage: { backend: StorageBackend; bucket: string };
+  // Rows as stored, not as the app reads them
+  memories: Row[];
+  profiles: Row[];
+  files: string[];
+}
+
+async function listRows(client: SupabaseClient, table: string): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += ROW_BATCH) {
+    const { data, error } = await client
+      .from(table)
+      .select('*')
+      .order('id')
+      .range(from, from + ROW_BATCH - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < ROW_BATCH) return rows;
+  }
+}
+
+// Reads the rows and lists the files up front, so a failure is reported
+// before any of the archive is sent
+export async function createBackupManifest(
+  client: SupabaseClient = supabaseServer,
+  adapter: StorageAdapter = getStorage(),
+): Promise<BackupManifest> {
+  const [memories, profiles, objects] = await Promise.all([
+    listRows(client, MEMORIES_TABLE),
+    listRows(client, PROFILES_TABLE),
+    adapter.list(),
+  ]);
+
+  return {
+    version: BACKUP_VERSION,
+    created_at: new Date().toISOString(),
+    storage: { backend: STORAGE_BACKEND, bucket: STORAGE_BUCKET },
+    memories,
+    profiles,
+    files: objects.map(({ path }) => path).sort(),
+  };
+}
+
+// Streams the archive: the manifest, then every file as it is read from storage
+export function createBackupStream(manifest: BackupManifest, adapter: StorageAdapter = getStorage()): ReadableStream<Uint8Array> {
+  return streamZip(async (zip) => {
+    await zip.add(BACKUP_MANIFEST, new TextReader(JSON.stringify(manifest)));
+    for (const path of manifest.files) {
+      await zip.add(`${BACKUP_FILES_FOLDER}${path}`, await adapter.read(path));
+    }
+  });
+}
+
+// A browser download can't send the admin's access token, so the admin
+// fetches a short-lived signed link and the browser follows it
+export function createBackupToken(): string {
+  return createSignedToken('backup');
+}
+
+export function verifyBackupToken(token: string): boolean {
+  return verifySignedToken('backup', token, BACKUP_LINK_MAX_AGE_MS);
+}
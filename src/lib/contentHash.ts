@@ -0,0 +1,14 @@
+import { createSHA256 } from 'hash-wasm';
+
+// Read in slices so hashing a large video never holds it in memory whole
+const HASH_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Hex SHA-256 of a file's bytes, the same digest stored in `content_hashes`
+export async function hashFile(file: Blob): Promise<string> {
+  const hasher = await createSHA256();
+  hasher.init();
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    hasher.update(new Uint8Array(await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer()));
+  }
+  return hasher.digest('hex');
+}
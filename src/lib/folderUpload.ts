@@ -0,0 +1,98 @@
+// Reads whole folders picked or dropped into the upload form, remembering
+// which folder each file came from so folders can become albums
+
+import { isHeic } from '@/lib/heic';
+
+export interface PickedFile {
+  file: File;
+  // Path of the folder the file was in, relative to what was picked or
+  // dropped ("Trip/Day 1"); empty for files picked on their own
+  folder: string;
+}
+
+// Photos and videos only. Hidden files are skipped, including the `._` copies
+// macOS leaves next to each photo on external drives, which carry the
+// photo's extension but no picture.
+export function isMediaFile(file: File): boolean {
+  if (file.name.startsWith('.')) return false;
+  return file.type.startsWith('image/') || file.type.startsWith('video/') || isHeic(file);
+}
+
+const byName = (a: { name: string }, b: { name: string }) =>
+  a.name.localeCompare(b.name, undefined, { numeric: true });
+
+// A directory reader hands out at most 100 entries per call
+function readAllEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+    const readBatch = () => reader.readEntries((batch) => {
+      if (batch.length === 0) {
+        resolve(entries);
+        return;
+      }
+      entries.push(...batch);
+      readBatch();
+    }, reject);
+    readBatch();
+  });
+}
+
+const readEntryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+async function walkEntry(entry: FileSystemEntry, folder: string, picked: PickedFile[]) {
+  if (entry.isFile) {
+    picked.push({ file: await readEntryFile(entry as FileSystemFileEntry), folder });
+  } else if (entry.isDirectory) {
+    const path = folder ? `${folder}/${entry.name}` : entry.name;
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    for (const child of children.sort(byName)) {
+      await walkEntry(child, path, picked);
+    }
+  }
+}
+
+// Everything dropped, with folders read recursively. The entries are taken
+// before anything is awaited: the browser empties the drop's item list once
+// the event handler returns.
+export function readDroppedFiles(dataTransfer: DataTransfer): Promise<PickedFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+  // Browsers without the entries API still list the dropped files
+  const files = Array.from(dataTransfer.files);
+
+  return (async () => {
+    if (entries.length === 0 || entries.some(entry => !entry)) {
+      return files.map(file => ({ file, folder: '' }));
+    }
+    const picked: PickedFile[] = [];
+    for (const entry of entries) {
+      await walkEntry(entry!, '', picked);
+    }
+    return picked;
+  })();
+}
+
+// Files from a directory picker, which each carry their path from the
+// picked folder down
+export function readPickedFolder(files: File[]): PickedFile[] {
+  return files
+    .map(file => ({ file, folder: file.webkitRelativePath.split('/').slice(0, -1).join('/') }))
+    .sort((a, b) => a.folder.localeCompare(b.folder) || byName(a.file, b.file));
+}
+
+// Last part of a folder path, the title its album gets
+export const getFolderName = (folder: string) => folder.split('/').pop() || folder;
+
+// Folders holding at least two of `items`, each with its items in order.
+// Single files in a folder and files picked on their own stay out.
+export function groupFolderAlbums<T extends { folder: string }>(items: T[]): { folder: string; items: T[] }[] {
+  const folders = new Map<string, T[]>();
+  for (const item of items) {
+    if (!item.folder) continue;
+    folders.set(item.folder, [...(folders.get(item.folder) || []), item]);
+  }
+  return Array.from(folders, ([folder, folderItems]) => ({ folder, items: folderItems }))
+    .filter(({ items: folderItems }) => folderItems.length > 1);
+}
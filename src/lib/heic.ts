@@ -0,0 +1,51 @@
+// iPhones save photos as HEIC/HEIF, which only Safari can display. They are
+// converted to JPEG in the browser for the upload preview and the display
+// version; the original is uploaded untouched next to it.
+
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+const CONVERTED_QUALITY = 0.92;
+
+// Chrome and Firefox on Windows often leave the type of HEIC files empty, so
+// the extension counts too
+export function isHeic(file: File): boolean {
+  return HEIC_TYPES.includes(file.type) || (!file.type && /\.hei[cf]$/i.test(file.name));
+}
+
+// The same file with an image type, so it is treated as a photo everywhere
+export function withHeicType(file: File): File {
+  if (file.type || !isHeic(file)) return file;
+  return new File([file], file.name, { type: 'image/heic', lastModified: file.lastModified });
+}
+
+// Browsers that decode HEIC themselves (Safari) draw it straight to a canvas
+async function convertNatively(file: File): Promise<Blob | null> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    return null;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', CONVERTED_QUALITY));
+}
+
+// JPEG copy of a HEIC photo. Other browsers get libheif compiled to
+// WebAssembly, loaded only once a HEIC file shows up.
+export async function convertHeic(file: File): Promise<File> {
+  let blob = await convertNatively(file);
+  if (!blob) {
+    const { default: heic2any } = await import('heic2any');
+    const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: CONVERTED_QUALITY });
+    // Burst and live photos hold several images; the first is the photo
+    blob = Array.isArray(result) ? result[0] : result;
+  }
+
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return new File([blob], `${baseName}.jpg`, { type: 'image/jpeg', lastModified: file.lastModified });
+}
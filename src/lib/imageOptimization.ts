@@ -0,0 +1,63 @@
+// Builds the display version of a photo in the browser before upload: scaled
+// down to fit a maximum dimension and re-encoded as WebP or AVIF. The original
+// is uploaded alongside it, untouched.
+
+export type ImageFormat = 'webp' | 'avif';
+
+export interface ImageOptimizationOptions {
+  maxDimension: number;
+  // Encoder quality between 0 and 1
+  quality: number;
+  format: ImageFormat;
+}
+
+export const IMAGE_OPTIMIZATION: ImageOptimizationOptions = {
+  maxDimension: Number(process.env.NEXT_PUBLIC_IMAGE_MAX_DIMENSION) || 2048,
+  quality: Number(process.env.NEXT_PUBLIC_IMAGE_QUALITY) || 0.82,
+  format: process.env.NEXT_PUBLIC_IMAGE_FORMAT === 'avif' ? 'avif' : 'webp',
+};
+
+// Animated or vector images would lose what makes them special on a canvas
+const SKIPPED_TYPES = ['image/gif', 'image/svg+xml'];
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
+
+// Returns a resized, re-encoded copy of `file`, or null when the original is
+// already the better display version (unsupported type, the browser can't
+// decode it, or re-encoding wouldn't make it smaller)
+export async function optimizeImage(
+  file: File,
+  { maxDimension, quality, format }: ImageOptimizationOptions = IMAGE_OPTIMIZATION,
+): Promise<File | null> {
+  if (!file.type.startsWith('image/') || SKIPPED_TYPES.includes(file.type)) return null;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    console.error('Error decoding image for optimization:', error);
+    return null;
+  }
+
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  // Browsers that can't encode the requested format hand back a PNG instead;
+  // fall back to WebP, then give up
+  let blob = await canvasToBlob(canvas, `image/${format}`, quality);
+  if (blob?.type !== `image/${format}` && format !== 'webp') {
+    blob = await canvasToBlob(canvas, 'image/webp', quality);
+  }
+  if (!blob || !['image/webp', 'image/avif'].includes(blob.type)) return null;
+  if (scale === 1 && blob.size >= file.size) return null;
+
+  const extension = blob.type.split('/')[1];
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return new File([blob], `${baseName}.${extension}`, { type: blob.type, lastModified: file.lastModified });
+}
@@ -0,0 +1,218 @@
+// Reads metadata embedded in photos and videos in the browser, before upload
+
+import exifr from 'exifr';
+
+// Seconds between the MP4/QuickTime epoch (1904-01-01) and the Unix epoch
+const MP4_EPOCH_OFFSET = 2082844800;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MediaSize {
+  width: number;
+  height: number;
+}
+
+export interface VideoMetadata {
+  // Display duration such as "1:05", as shown on the video badge
+  duration: string | null;
+  size: MediaSize | null;
+  codec: string | null;
+}
+
+// Friendly names for the sample entry types of common video codecs
+const VIDEO_CODECS: Record<string, string> = {
+  avc1: 'H.264',
+  avc3: 'H.264',
+  hvc1: 'HEVC',
+  hev1: 'HEVC',
+  av01: 'AV1',
+  vp08: 'VP8',
+  vp09: 'VP9',
+  mp4v: 'MPEG-4',
+  apcn: 'ProRes',
+  apch: 'ProRes',
+};
+
+interface BoxRange {
+  start: number;
+  end: number;
+}
+
+// Finds the first MP4/QuickTime box of `type` between `start` and `end`,
+// reading only box headers so large videos are never loaded whole
+async function findBox(file: Blob, { start, end }: BoxRange, type: string): Promise<BoxRange | null> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    const boxType = String.fromCharCode(...new Uint8Array(header.buffer, 4, 4));
+    let size = header.getUint32(0);
+    let headerSize = 8;
+    if (size === 1 && header.byteLength >= 16) {
+      size = Number(header.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) return null;
+
+    if (boxType === type) return { start: offset + headerSize, end: Math.min(offset + size, end) };
+    offset += size;
+  }
+  return null;
+}
+
+// Creation time from the movie header (`moov/mvhd`) of MP4 and MOV files
+async function readVideoCreationTime(file: File): Promise<Date | null> {
+  const moov = await findBox(file, { start: 0, end: file.size }, 'moov');
+  const mvhd = moov && await findBox(file, moov, 'mvhd');
+  if (!mvhd) return null;
+
+  const view = new DataView(await file.slice(mvhd.start, mvhd.start + 12).arrayBuffer());
+  const seconds = view.getUint8(0) === 1 ? Number(view.getBigUint64(4)) : view.getUint32(4);
+  // Cameras that don't know the time leave it at zero
+  if (seconds <= MP4_EPOCH_OFFSET) return null;
+  return new Date((seconds - MP4_EPOCH_OFFSET) * 1000);
+}
+
+// ISO 6709 location (`+37.3318-122.0312/`) from the `moov/udta/©xyz` box
+// that Android phones and most cameras write
+async function readVideoLocation(file: File): Promise<GeoPoint | null> {
+  const moov = await findBox(file, { start: 0, end: file.size }, 'moov');
+  const udta = moov && await findBox(file, moov, 'udta');
+  const xyz = udta && await findBox(file, udta, '\u00a9xyz');
+  if (!xyz) return null;
+
+  // A 2-byte length and 2-byte language code precede the text
+  const text = await file.slice(xyz.start + 4, xyz.end).text();
+  const match = text.match(/^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)/);
+  return match ? { latitude: Number(match[1]), longitude: Number(match[2]) } : null;
+}
+
+// Codec of the first video track, from its sample description
+// (`moov/trak/mdia/minf/stbl/stsd`); tracks are told apart by their
+// `mdia/hdlr` handler type
+async function readVideoCodec(file: File): Promise<string | null> {
+  const moov = await findBox(file, { start: 0, end: file.size }, 'moov');
+  if (!moov) return null;
+
+  let searchFrom = moov.start;
+  for (;;) {
+    const trak = await findBox(file, { start: searchFrom, end: moov.end }, 'trak');
+    if (!trak) return null;
+    searchFrom = trak.end;
+
+    const mdia = await findBox(file, trak, 'mdia');
+    const hdlr = mdia && await findBox(file, mdia, 'hdlr');
+    // Version and flags, then a reserved field, precede the handler type
+    if (!mdia || !hdlr || await file.slice(hdlr.start + 8, hdlr.start + 12).text() !== 'vide') continue;
+
+    const minf = await findBox(file, mdia, 'minf');
+    const stbl = minf && await findBox(file, minf, 'stbl');
+    const stsd = stbl && await findBox(file, stbl, 'stsd');
+    if (!stsd) return null;
+
+    // Version, flags and entry count, then the first entry's size and type
+    const type = await file.slice(stsd.start + 12, stsd.start + 16).text();
+    return VIDEO_CODECS[type] ?? (/^[\w.-]{4}$/.test(type) ? type : null);
+  }
+}
+
+// m:ss, or h:mm:ss for an hour or longer
+const formatVideoDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const minutes = Math.floor((total % 3600) / 60);
+  return total >= 3600
+    ? `${Math.floor(total / 3600)}:${pad(minutes)}:${pad(total % 60)}`
+    : `${minutes}:${pad(total % 60)}`;
+};
+
+// Duration and display size as the browser plays the video, so rotated
+// phone videos report their upright size
+function readPlaybackMetadata(file: File): Promise<{ duration: string | null; size: MediaSize | null }> {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    const finish = (result: { duration: string | null; size: MediaSize | null }) => {
+      URL.revokeObjectURL(url);
+      video.removeAttribute('src');
+      resolve(result);
+    };
+
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => finish({
+      duration: Number.isFinite(video.duration) ? formatVideoDuration(video.duration) : null,
+      size: video.videoWidth && video.videoHeight ? { width: video.videoWidth, height: video.videoHeight } : null,
+    });
+    video.onerror = () => finish({ duration: null, size: null });
+    video.src = url;
+  });
+}
+
+async function readExifDate(file: File): Promise<Date | null> {
+  const tags = await exifr.parse(file, ['DateTimeOriginal', 'CreateDate']);
+  const date = tags?.DateTimeOriginal ?? tags?.CreateDate;
+  return date instanceof Date ? date : null;
+}
+
+// When a photo or video was taken: EXIF `DateTimeOriginal` for photos, the
+// container creation time for videos, else the file's last-modified time
+export async function readCaptureDate(file: File): Promise<Date> {
+  try {
+    const date = file.type.startsWith('video/')
+      ? await readVideoCreationTime(file)
+      : await readExifDate(file);
+    if (date && !Number.isNaN(date.getTime())) return date;
+  } catch (error) {
+    console.error('Error reading capture date:', error);
+  }
+  return new Date(file.lastModified);
+}
+
+const isValidPoint = ({ latitude, longitude }: GeoPoint) =>
+  Number.isFinite(latitude) && Number.isFinite(longitude) &&
+  Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 &&
+  // Devices without a fix sometimes write 0,0
+  (latitude !== 0 || longitude !== 0);
+
+// Where a photo (GPS EXIF) or video (ISO 6709 metadata) was taken, if recorded
+export async function readLocation(file: File): Promise<GeoPoint | null> {
+  try {
+    const point = file.type.startsWith('video/')
+      ? await readVideoLocation(file)
+      : await exifr.gps(file);
+    return point && isValidPoint(point) ? { latitude: point.latitude, longitude: point.longitude } : null;
+  } catch (error) {
+    console.error('Error reading location:', error);
+    return null;
+  }
+}
+
+// Duration, size and codec of a video; whatever can't be read is null
+export async function readVideoMetadata(file: File): Promise<VideoMetadata> {
+  const [playback, codec] = await Promise.all([
+    readPlaybackMetadata(file),
+    readVideoCodec(file).catch((error) => {
+      console.error('Error reading video codec:', error);
+      return null;
+    }),
+  ]);
+  return { ...playback, codec };
+}
+
+// Upright pixel size of a photo, with EXIF orientation applied
+export async function readImageSize(file: File): Promise<MediaSize | null> {
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch (error) {
+    console.error('Error reading image size:', error);
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+// Resolves what a memory stores in `src`, `thumbnail` or `album_photos` into a
+// URL the browser can load. Safe to import from client components.
+
+import type { Memory } from '@/lib/memories';
+
+export type StorageBackend = 'supabase' | 'local';
+
+export const STORAGE_BACKEND: StorageBackend =
+  process.env.NEXT_PUBLIC_STORAGE_BACKEND === 'local' ? 'local' : 'supabase';
+
+export const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || 'memories';
+
+// Route that serves files kept by the local-disk backend
+export const LOCAL_MEDIA_ROUTE = '/api/media';
+
+// Route taking resumable (tus) uploads for the local-disk backend; on either
+// backend it also names uploads and discards those that never became a memory
+export const LOCAL_UPLOAD_ROUTE = '/api/uploads';
+
+// Largest single file a resumable upload accepts; keep in line with the
+// storage `file_size_limit` in supabase/config.toml
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024 * 1024;
+
+const supabaseUrl = (process.env.NEXT_PUBLIC_SUPABASE_URL || '').replace(/\/$/, '');
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+export function getLocalMediaUrl(path: string): string {
+  return `${LOCAL_MEDIA_ROUTE}/${encodePath(path)}`;
+}
+
+export function getObjectUrl(path: string): string {
+  if (STORAGE_BACKEND === 'local') {
+    return getLocalMediaUrl(path);
+  }
+  return `${supabaseUrl}/storage/v1/object/public/${STORAGE_BUCKET}/${encodePath(path)}`;
+}
+
+// Full URLs (and app-relative ones) are used as-is; bare object paths, which
+// is how videos are stored, are resolved against the active backend
+export function getMediaUrl(value: string): string {
+  if (/^(https?:|blob:|data:)/.test(value) || value.startsWith('/')) {
+    return value;
+  }
+  return getObjectUrl(value);
+}
+
+// The smallest stored size of a video's thumbnail that is at least `size`
+// pixels on its long side, else the largest
+export function getThumbnailUrl(memory: Partial<Pick<Memory, 'thumbnail' | 'thumbnails'>>, size?: number): string | null {
+  const match = size
+    ? memory.thumbnails?.find(({ width, height }) => Math.max(width, height) >= size)
+    : undefined;
+  const value = match?.src ?? memory.thumbnail;
+  return value ? getMediaUrl(value) : null;
+}
+
+// Image that stands for a memory: the photo itself or the video's thumbnail,
+// sized for `size` pixels when given
+export function getPreviewUrl(
+  memory: Pick<Memory, 'type' | 'src' | 'thumbnail' | 'thumbnails'>,
+  size?: number,
+): string | null {
+  if (memory.type === 'photo') {
+    return memory.src ? getMediaUrl(memory.src) : null;
+  }
+  return getThumbnailUrl(memory, size);
+}
@@ -0,0 +1,530 @@
+import type { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+export const MEMORIES_TABLE = 'memories';
+const MEMORY_DUPLICATES_VIEW = 'memory_duplicates';
+const MEMORY_TAGS_VIEW = 'memory_tags';
+
+export type MemoryId = number;
+export type MemoryType = 'photo' | 'video';
+// How exactly a memory's date is known
+export type DatePrecision = 'day' | 'month' | 'year';
+
+// One photo or video of an album. Videos keep a bare object path in `src`
+// and carry their own thumbnail and duration, like a video memory.
+export interface AlbumPhoto {
+  // Missing on items saved before albums could hold videos; those are photos
+  type?: MemoryType;
+  src: string;
+  // Full-size upload when `src` is a resized display version
+  original?: string | null;
+  // SHA-256 of the original file
+  hash?: string | null;
+  caption?: string | null;
+  thumbnail?: string | null;
+  thumbnails?: Thumbnail[] | null;
+  duration?: string | null;
+}
+
+// One size of a video's thumbnail
+export interface Thumbnail {
+  src: string;
+  width: number;
+  height: number;
+}
+
+export interface Memory {
+  id: MemoryId;
+  type: MemoryType;
+  title: string;
+  // Longer story behind the memory, in lightweight markdown
+  description: string | null;
+  src: string | null;
+  original: string | null;
+  thumbnail: string | null;
+  // The thumbnail in several sizes, smallest first; `thumbnail` is the largest
+  thumbnails: Thumbnail[] | null;
+  duration: string | null;
+  date: string;
+  date_precision: DatePrecision;
+  created_at: string | null;
+  tags: string[];
+  album_photos: AlbumPhoto[] | null;
+  // Where it was taken, in WGS84 degrees; both set or both null
+  latitude: number | null;
+  longitude: number | null;
+  // SHA-256 of each original file, for spotting duplicates
+  content_hashes: string[];
+  // Pixel size of the photo (an album's cover) or video; both set or both null
+  width: number | null;
+  height: number | null;
+  // Video codec, e.g. "H.264"
+  codec: string | null;
+}
+
+// Fields a caller provides when creating a memory; the database fills in the rest
+export type NewMemory = Pick<Memory, 'type' | 'title' | 'date'> &
+  Partial<Pick<Memory, 'description' | 'src' | 'original' | 'thumbnail' | 'thumbnails' | 'duration' | 'date_precision' | 'tags' | 'album_photos' | 'latitude' | 'longitude' | 'content_hashes' | 'width' | 'height' | 'codec'>>;
+
+export type MemoryChanges = Partial<NewMemory>;
+
+// The columns of a memory that point at stored files
+export type MemoryFiles = Pick<Memory, 'src' | 'original' | 'thumbnail' | 'thumbnails' | 'album_photos'>;
+
+export interface MemoryFilters {
+  type?: MemoryType;
+  tag?: string;
+  search?: string;
+  from?: string;
+  to?: string;
+  // Only memories with a location, for the map
+  located?: boolean;
+  // Only memories holding a file with one of these content hashes
+  hashes?: string[];
+}
+
+export interface ListMemoriesOptions extends MemoryFilters {
+  limit?: number;
+  orderBy?: 'date' | 'created_at';
+  ascending?: boolean;
+}
+
+export interface ListMemoryPageOptions extends MemoryFilters {
+  cursor?: string | null;
+  limit?: number;
+}
+
+// Position after the last memory of a page, in `date desc, id desc` order
+export interface MemoryCursor {
+  date: string;
+  id: MemoryId;
+}
+
+export interface MemoryPage {
+  memories: Memory[];
+  nextCursor: string | null;
+}
+
+export interface MemoryStats {
+  total: number;
+  photos: number;
+  videos: number;
+}
+
+export type MemoryChange<T extends Memory = Memory> =
+  | { type: 'INSERT' | 'UPDATE'; memory: T }
+  | { type: 'DELETE'; id: MemoryId };
+
+// Memories sharing a file with the same content hash
+export interface DuplicateGroup {
+  hash: string;
+  memories: Memory[];
+}
+
+// A tag in use and how many memories carry it
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 24;
+
+// PostgREST's default cap on rows per request
+const MEMORY_FILES_BATCH = 1000;
+
+// Shape of a row as stored in the `memories` table
+interface MemoryRow {
+  id: number | string;
+  type: MemoryType;
+  title: string | null;
+  description?: string | null;
+  src: string | null;
+  original?: string | null;
+  thumbnail: string | null;
+  thumbnails?: Thumbnail[] | null;
+  duration: string | null;
+  date: string;
+  date_precision?: DatePrecision | null;
+  created_at?: string | null;
+  tags: string[] | null;
+  album_photos: AlbumPhoto[] | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  content_hashes?: string[] | null;
+  width?: number | null;
+  height?: number | null;
+  codec?: string | null;
+}
+
+export function toMemory(row: MemoryRow): Memory {
+  return {
+    id: Number(row.id),
+    type: row.type,
+    title: row.title ?? '',
+    description: row.description ?? null,
+    src: row.src ?? null,
+    original: row.original ?? null,
+    thumbnail: row.thumbnail ?? null,
+    thumbnails: row.thumbnails && row.thumbnails.length > 0 ? row.thumbnails : null,
+    duration: row.duration ?? null,
+    date: row.date,
+    date_precision: row.date_precision ?? 'day',
+    created_at: row.created_at ?? null,
+    tags: row.tags ?? [],
+    album_photos: row.album_photos && row.album_photos.length > 0 ? row.album_photos : null,
+    latitude: row.latitude ?? null,
+    longitude: row.longitude ?? null,
+    content_hashes: row.content_hashes ?? [],
+    width: row.width ?? null,
+    height: row.height ?? null,
+    codec: row.codec ?? null,
+  };
+}
+
+function toRow(memory: MemoryChanges): Partial<MemoryRow> {
+  const row: Partial<MemoryRow> = {};
+  if (memory.type !== undefined) row.type = memory.type;
+  if (memory.title !== undefined) row.title = memory.title;
+  if (memory.description !== undefined) row.description = memory.description;
+  if (memory.src !== undefined) row.src = memory.src;
+  if (memory.original !== undefined) row.original = memory.original;
+  if (memory.thumbnail !== undefined) row.thumbnail = memory.thumbnail;
+  if (memory.thumbnails !== undefined) row.thumbnails = memory.thumbnails;
+  if (memory.duration !== undefined) row.duration = memory.duration;
+  if (memory.date !== undefined) row.date = memory.date;
+  if (memory.date_precision !== undefined) row.date_precision = memory.date_precision;
+  if (memory.tags !== undefined) row.tags = memory.tags;
+  if (memory.album_photos !== undefined) row.album_photos = memory.album_photos;
+  if (memory.latitude !== undefined) row.latitude = memory.latitude;
+  if (memory.longitude !== undefined) row.longitude = memory.longitude;
+  if (memory.content_hashes !== undefined) row.content_hashes = memory.content_hashes;
+  if (memory.width !== undefined) row.width = memory.width;
+  if (memory.height !== undefined) row.height = memory.height;
+  if (memory.codec !== undefined) row.codec = memory.codec;
+  return row;
+}
+
+export function encodeCursor({ date, id }: MemoryCursor): string {
+  return btoa(JSON.stringify([date, id]));
+}
+
+export function decodeCursor(cursor: string): MemoryCursor | null {
+  try {
+    const [date, id] = JSON.parse(atob(cursor));
+    if (typeof date !== 'string' || Number.isNaN(Date.parse(date)) || !Number.isInteger(id)) {
+      return null;
+    }
+    return { date, id };
+  } catch {
+    return null;
+  }
+}
+
+type MemoryQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
+// Search text is matched literally: `%` and `_` would otherwise act as LIKE
+// wildcards, with `\` as their escape
+const escapeLikePattern = (text: string) => text.replace(/[\\%_]/g, '\\$&');
+
+function applyFilters<Q extends MemoryQuery>(query: Q, { type, tag, search, from, to, located, hashes }: MemoryFilters): Q {
+  if (type) {
+    query = query.eq('type', type) as Q;
+  }
+  if (tag) {
+    query = query.contains('tags', [tag]) as Q;
+  }
+  if (search) {
+    query = query.ilike('title', `%${escapeLikePattern(search)}%`) as Q;
+  }
+  if (from) {
+    query = query.gte('date', from) as Q;
+  }
+  if (to) {
+    query = query.lte('date', to) as Q;
+  }
+  if (located) {
+    query = query.not('latitude', 'is', null) as Q;
+  }
+  if (hashes && hashes.length > 0) {
+    query = query.overlaps('content_hashes', hashes) as Q;
+  }
+  return query;
+}
+
+// Every operation runs against the browser client unless the caller passes
+// its own, which is how the API routes use the server-side client
+export async function listMemories({
+  limit,
+  orderBy = 'date',
+  ascending = false,
+  ...filters
+}: ListMemoriesOptions = {}, client: SupabaseClient = supabase): Promise<Memory[]> {
+  let query = applyFilters(client.from(MEMORIES_TABLE).select('*'), filters)
+    .order(orderBy, { ascending });
+  if (limit) {
+    query = query.limit(limit);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []).map(toMemory);
+}
+
+// Keyset pagination on (date, id) so pages stay stable while memories are added
+export async function listMemoryPage({
+  cursor,
+  limit = DEFAULT_PAGE_SIZE,
+  ...filters
+}: ListMemoryPageOptions = {}, client: SupabaseClient = supabase): Promise<MemoryPage> {
+  let query = applyFilters(client.from(MEMORIES_TABLE).select('*'), filters);
+
+  if (cursor) {
+    const after = decodeCursor(cursor);
+    if (!after) throw new Error('Invalid cursor');
+    query = query.or(`date.lt."${after.date}",and(date.eq."${after.date}",id.lt.${after.id})`);
+  }
+
+  // Fetch one extra row to find out whether another page follows
+  const { data, error } = await query
+    .order('date', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) throw error;
+
+  const rows = (data || []).map(toMemory);
+  const memories = rows.slice(0, limit);
+  const last = memories[memories.length - 1];
+
+  return {
+    memories,
+    nextCursor: rows.length > limit && last ? encodeCursor({ date: last.date, id: last.id }) : null,
+  };
+}
+
+export async function countMemories(filters: MemoryFilters = {}, client: SupabaseClient = supabase): Promise<number> {
+  const { count, error } = await applyFilters(
+    client.from(MEMORIES_TABLE).select('*', { count: 'exact', head: true }),
+    filters
+  );
+
+  if (error) throw error;
+  return count || 0;
+}
+
+export async function getMemoryStats(client: SupabaseClient = supabase): Promise<MemoryStats> {
+  const [total, photos, videos] = await Promise.all([
+    countMemories({}, client),
+    countMemories({ type: 'photo' }, client),
+    countMemories({ type: 'video' }, client),
+  ]);
+  return { total, photos, videos };
+}
+
+export async function getMemory(id: MemoryId, client: SupabaseClient = supabase): Promise<Memory | null> {
+  const { data, error } = await client
+    .from(MEMORIES_TABLE)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toMemory(data) : null;
+}
+
+// The memories with the given ids, newest first; ids that don't exist are left out
+export async function listMemoriesById(ids: MemoryId[], client: SupabaseClient = supabase): Promise<Memory[]> {
+  const { data, error } = await client
+    .from(MEMORIES_TABLE)
+    .select('*')
+    .in('id', ids)
+    .order('date', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toMemory);
+}
+
+// File columns of every memory, read in batches; used to tell which stored
+// objects are still referenced
+export async function listMemoryFiles(client: SupabaseClient = supabase): Promise<MemoryFiles[]> {
+  const files: MemoryFiles[] = [];
+  for (let from = 0; ; from += MEMORY_FILES_BATCH) {
+    const { data, error } = await client
+      .from(MEMORIES_TABLE)
+      .select('src, original, thumbnail, thumbnails, album_photos')
+      .order('id')
+      .range(from, from + MEMORY_FILES_BATCH - 1);
+
+    if (error) throw error;
+    files.push(...(data || []));
+    if (!data || data.length < MEMORY_FILES_BATCH) return files;
+  }
+}
+
+// Every hash shared by more than one file, largest groups first, with the
+// memories holding it (see the `memory_duplicates` view)
+export async function listDuplicateGroups(client: SupabaseClient = supabase): Promise<DuplicateGroup[]> {
+  const { data, error } = await client
+    .from(MEMORY_DUPLICATES_VIEW)
+    .select('hash, memory_ids')
+    .order('file_count', { ascending: false });
+
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const ids = Array.from(new Set(data.flatMap(({ memory_ids }) => memory_ids as (number | string)[])));
+  const { data: rows, error: rowsError } = await client
+    .from(MEMORIES_TABLE)
+    .select('*')
+    .in('id', ids);
+
+  if (rowsError) throw rowsError;
+  const memoriesById = new Map((rows || []).map(toMemory).map(memory => [memory.id, memory]));
+
+  return data.map(({ hash, memory_ids }) => ({
+    hash,
+    memories: (memory_ids as (number | string)[])
+      .map(id => memoriesById.get(Number(id)))
+      .filter((memory): memory is Memory => !!memory),
+  }));
+}
+
+// Every tag in use, most used first (see the `memory_tags` view)
+export async function listTags(client: SupabaseClient = supabase): Promise<TagCount[]> {
+  const { data, error } = await client
+    .from(MEMORY_TAGS_VIEW)
+    .select('tag, memory_count')
+    .order('memory_count', { ascending: false })
+    .order('tag');
+
+  if (error) throw error;
+  return (data || []).map(({ tag, memory_count }) => ({ tag, count: Number(memory_count) }));
+}
+
+// Which of the given object names a memory points at, checked in the
+// database rather than by reading every memory's files
+export async function listReferencedObjectPaths(
+  paths: string[],
+  client: SupabaseClient = supabase
+): Promise<Set<string>> {
+  if (paths.length === 0) return new Set();
+
+  const { data, error } = await client.rpc('referenced_object_paths', { paths });
+
+  if (error) throw error;
+  return new Set((data as string[] | null) || []);
+}
+
+// Renames `tags` to `replacement` on every memory, merging them when there
+// are several, or removes them when `replacement` is null. Resolves with the
+// number of memories changed.
+export async function replaceTags(
+  tags: string[],
+  replacement: string | null,
+  client: SupabaseClient = supabase
+): Promise<number> {
+  const { data, error } = await client.rpc('replace_memory_tags', { old_tags: tags, new_tag: replacement });
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+export async function createMemory(memory: NewMemory, client: SupabaseClient = supabase): Promise<Memory> {
+  const { data, error } = await client
+    .from(MEMORIES_TABLE)
+    .insert([{
+      thumbnail: null,
+      album_photos: null,
+      ...toRow(memory),
+    }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toMemory(data);
+}
+
+export async function updateMemory(
+  id: MemoryId,
+  changes: MemoryChanges,
+  client: SupabaseClient = supabase
+): Promise<Memory> {
+  const { data, error } = await client
+    .from(MEMORIES_TABLE)
+    .update(toRow(changes))
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toMemory(data);
+}
+
+export async function deleteMemory(id: MemoryId, client: SupabaseClient = supabase): Promise<void> {
+  const { error } = await client
+    .from(MEMORIES_TABLE)
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+// Streams inserts, updates and deletes on the table; returns the unsubscribe function
+export function subscribeToMemories(
+  onChange: (change: MemoryChange) => void,
+  client: SupabaseClient = supabase
+): () => void {
+  const channel = client
+    .channel('memories-changes')
+    .on<MemoryRow>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: MEMORIES_TABLE },
+      (payload: RealtimePostgresChangesPayload<MemoryRow>) => {
+        if (payload.eventType === 'DELETE') {
+          // Without REPLICA IDENTITY FULL the old record only carries the primary key
+          if (payload.old.id !== undefined) {
+            onChange({ type: 'DELETE', id: Number(payload.old.id) });
+          }
+        } else {
+          onChange({ type: payload.eventType, memory: toMemory(payload.new) });
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    client.removeChannel(channel);
+  };
+}
+
+export const getAlbumItemType = (item: AlbumPhoto): MemoryType => item.type ?? 'photo';
+
+// How many photos and videos an album holds
+export function countAlbumItems(items: AlbumPhoto[]): Record<MemoryType, number> {
+  const videos = items.filter(item => getAlbumItemType(item) === 'video').length;
+  return { photo: items.length - videos, video: videos };
+}
+
+// Newest first, the order pages are served in
+export function compareMemories(a: Memory, b: Memory): number {
+  const byDate = Date.parse(b.date) - Date.parse(a.date);
+  return byDate !== 0 ? byDate : b.id - a.id;
+}
+
+// Merges a realtime change into a loaded, newest-first list. While more pages
+// remain, memories sorting after the last loaded one are left for pagination
+export function applyMemoryChange<T extends Memory>(list: T[], change: MemoryChange<T>, hasMore: boolean): T[] {
+  const id = change.type === 'DELETE' ? change.id : change.memory.id;
+  const rest = list.filter(memory => memory.id !== id);
+  if (change.type === 'DELETE') {
+    return rest.length === list.length ? list : rest;
+  }
+
+  const last = rest[rest.length - 1];
+  if (hasMore && last && compareMemories(change.memory, last) > 0) {
+    return rest;
+  }
+  return [...rest, change.memory].sort(compareMemories);
+}
@@ -0,0 +1,156 @@
+import { supabase } from '@/lib/supabase';
+import type {
+  DuplicateGroup,
+  ListMemoryPageOptions,
+  Memory,
+  MemoryChanges,
+  MemoryId,
+  MemoryPage,
+  MemoryStats,
+  TagCount,
+} from '@/lib/memories';
+
+const API_BASE = '/api/memories';
+
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Forward the signed-in user's access token so admin-only routes can authorize it
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: { ...(await authHeaders()), ...init.headers },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(body?.error || `Request failed with status ${response.status}`, response.status);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+function toSearchParams({ type, tag, search, from, to, located, hashes, limit, cursor }: ListMemoryPageOptions): string {
+  const params = new URLSearchParams();
+  if (type) params.set('type', type);
+  if (tag) params.set('tag', tag);
+  if (search) params.set('q', search);
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  if (located) params.set('located', 'true');
+  hashes?.forEach(hash => params.append('hash', hash));
+  if (limit) params.set('limit', String(limit));
+  if (cursor) params.set('cursor', cursor);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+export async function fetchMemoryPage(options: ListMemoryPageOptions = {}): Promise<MemoryPage> {
+  return request<MemoryPage>(toSearchParams(options));
+}
+
+export async function fetchMemoryStats(): Promise<MemoryStats> {
+  return request<MemoryStats>('/stats');
+}
+
+// Admin report of files uploaded more than once
+export async function fetchDuplicateGroups(): Promise<DuplicateGroup[]> {
+  const { groups } = await request<{ groups: DuplicateGroup[] }>('/duplicates');
+  return groups;
+}
+
+// Admin sweep of stored files no memory points at; resolves with their paths
+export async function removeOrphanedFiles(): Promise<string[]> {
+  const { removed } = await request<{ removed: string[] }>('/orphans', { method: 'DELETE' });
+  return removed;
+}
+
+// Admin link to download a full backup from, valid for a few minutes. The
+// browser follows it, so the backup goes straight to disk.
+export async function fetchBackupUrl(): Promise<string> {
+  const response = await fetch('/api/backup', { method: 'POST', headers: await authHeaders() });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(body?.error || `Request failed with status ${response.status}`, response.status);
+  }
+  const { url } = await response.json() as { url: string };
+  return url;
+}
+
+// Tags in use, most used first
+export async function fetchTags(): Promise<TagCount[]> {
+  const { tags } = await request<{ tags: TagCount[] }>('/tags');
+  return tags;
+}
+
+// Admin rename of `tags` to `to` everywhere; several tags are merged into
+// one. Resolves with the number of memories changed.
+export async function renameTags(tags: string[], to: string): Promise<number> {
+  const { updated } = await request<{ updated: number }>('/tags', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ tags, to }),
+  });
+  return updated;
+}
+
+export async function deleteTags(tags: string[]): Promise<number> {
+  const { updated } = await request<{ updated: number }>('/tags', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ tags }),
+  });
+  return updated;
+}
+
+export async function fetchMemory(id: MemoryId): Promise<Memory> {
+  const { memory } = await request<{ memory: Memory }>(`/${id}`);
+  return memory;
+}
+
+// Plain links rather than requests: the browser streams the download to disk.
+// `item` picks one file of an album; without it an album comes as a ZIP.
+export function getDownloadUrl(id: MemoryId, item?: number): string {
+  return `${API_BASE}/${id}/download${item === undefined ? '' : `?item=${item}`}`;
+}
+
+// ZIP of several memories, albums in a folder each
+export function getSelectionDownloadUrl(ids: MemoryId[]): string {
+  const params = new URLSearchParams();
+  ids.forEach(id => params.append('id', String(id)));
+  return `${API_BASE}/download?${params}`;
+}
+
+// `form` carries type, title and the file(s); see parseNewMemoryForm for the full contract
+export async function uploadMemory(form: FormData): Promise<Memory> {
+  const { memory } = await request<{ memory: Memory }>('', { method: 'POST', body: form });
+  return memory;
+}
+
+export async function patchMemory(id: MemoryId, changes: MemoryChanges): Promise<Memory> {
+  const { memory } = await request<{ memory: Memory }>(`/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  return memory;
+}
+
+// `form` carries the new `thumbnail` image(s); see parseThumbnails
+export async function replaceThumbnail(id: MemoryId, form: FormData): Promise<Memory> {
+  const { memory } = await request<{ memory: Memory }>(`/${id}/thumbnail`, { method: 'PUT', body: form });
+  return memory;
+}
+
+export async function removeMemory(id: MemoryId): Promise<void> {
+  await request<void>(`/${id}`, { method: 'DELETE' });
+}
@@ -0,0 +1,82 @@
+import { format, type Locale } from 'date-fns';
+import type { DatePrecision } from '@/lib/memories';
+
+export const DATE_PRECISIONS: DatePrecision[] = ['day', 'month', 'year'];
+
+export const isDatePrecision = (value: unknown): value is DatePrecision =>
+  DATE_PRECISIONS.includes(value as DatePrecision);
+
+// Day dates are read in this one time zone on the server and in every
+// browser, so the server-rendered gallery shows the same day the browser does
+export const MEMORY_TIME_ZONE = process.env.NEXT_PUBLIC_TIME_ZONE || 'Asia/Jakarta';
+
+const zoneFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: MEMORY_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+});
+
+// The wall-clock time in MEMORY_TIME_ZONE at `time`, as if it were UTC
+function getZonedTime(time: number): number {
+  const parts = Object.fromEntries(
+    zoneFormat.formatToParts(new Date(time)).map(({ type, value }) => [type, Number(value)]),
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// The moment whose wall-clock time in MEMORY_TIME_ZONE is `zonedTime`; the
+// second pass settles times next to a daylight-saving change
+function fromZonedTime(zonedTime: number): number {
+  const guess = zonedTime - (getZonedTime(zonedTime) - zonedTime);
+  return zonedTime - (getZonedTime(guess) - guess);
+}
+
+// Month and year dates are pinned to noon UTC on the first of the period, so
+// they fall in the same month and year in every time zone from UTC-12 to UTC+11
+const periodStart = (year: number, month: number, precision: DatePrecision) =>
+  new Date(Date.UTC(year, precision === 'year' ? 0 : month, 1, 12)).toISOString();
+
+// The stored form of a date picked in the browser. Its fields (the day
+// picked, or a photo's capture time) are read in MEMORY_TIME_ZONE.
+export function toMemoryDate(date: Date, precision: DatePrecision): string {
+  if (precision !== 'day') return periodStart(date.getFullYear(), date.getMonth(), precision);
+  const fields = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds(),
+  );
+  return new Date(fromZonedTime(fields)).toISOString();
+}
+
+// Pins an ISO date sent to the API to its period, read in UTC
+export function normalizeMemoryDate(iso: string, precision: DatePrecision): string {
+  if (precision === 'day') return iso;
+  const date = new Date(iso);
+  return periodStart(date.getUTCFullYear(), date.getUTCMonth(), precision);
+}
+
+// The date as it appears on a calendar, the same wherever it is rendered: a
+// local Date carrying the day date's fields in MEMORY_TIME_ZONE, or the first
+// of the period for month and year dates
+export function getCalendarDate(iso: string, precision: DatePrecision): Date {
+  const date = new Date(iso);
+  if (precision !== 'day') return new Date(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const zoned = new Date(getZonedTime(date.getTime()));
+  return new Date(
+    zoned.getUTCFullYear(), zoned.getUTCMonth(), zoned.getUTCDate(),
+    zoned.getUTCHours(), zoned.getUTCMinutes(), zoned.getUTCSeconds(),
+  );
+}
+
+// Shows only as much of the date as is known
+export function formatMemoryDate(
+  iso: string,
+  precision: DatePrecision,
+  { dayPattern = 'MMMM d, yyyy', locale }: { dayPattern?: string; locale?: Locale } = {},
+): string {
+  const pattern = { day: dayPattern, month: 'MMMM yyyy', year: 'yyyy' }[precision];
+  return format(getCalendarDate(iso, precision), pattern, { locale });
+}
@@ -0,0 +1,119 @@
+// Server-side downloads of memory files: one original under a readable name,
+// or several streamed as a ZIP without holding them in memory
+
+import { ZipWriter } from '@zip.js/zip.js';
+import { format } from 'date-fns';
+import type { AlbumPhoto, DatePrecision, Memory } from '@/lib/memories';
+import { getCalendarDate } from '@/lib/memoryDate';
+import { getStorage, type StorageAdapter } from '@/lib/storage';
+
+export interface DownloadFile {
+  // Object path in storage
+  path: string;
+  // Name the file is saved under
+  name: string;
+}
+
+// Characters Windows, macOS or Linux refuse in file names
+const UNSAFE_NAME_CHARACTERS = /[\\/:*?"<>|\u0000-\u001f]/g;
+const MAX_NAME_LENGTH = 120;
+
+const DATE_PATTERNS: Record<DatePrecision, string> = { day: 'yyyy-MM-dd', month: 'yyyy-MM', year: 'yyyy' };
+
+// "Trip to Bali 2019-06-08"; month and year dates keep only what is known
+export function getDownloadBaseName(memory: Pick<Memory, 'title' | 'date' | 'date_precision'>): string {
+  const title = memory.title.replace(UNSAFE_NAME_CHARACTERS, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+  const date = format(getCalendarDate(memory.date, memory.date_precision), DATE_PATTERNS[memory.date_precision]);
+  return `${title || 'Kenangan'} ${date}`;
+}
+
+const getExtension = (path: string) => {
+  const match = path.match(/\.[\w]+$/);
+  return match ? match[0].toLowerCase() : '';
+};
+
+// The original of a photo when one was kept, else what is shown
+function toDownloadFile(
+  item: Pick<Memory, 'src' | 'original'> | Pick<AlbumPhoto, 'src' | 'original'>,
+  name: string,
+  adapter: StorageAdapter,
+): DownloadFile | null {
+  const value = item.original || item.src;
+  if (!value) return null;
+  const path = adapter.toPath(value);
+  return { path, name: `${name}${getExtension(path)}` };
+}
+
+// Numbered so the files sort in album order: "Trip 2019-06-08 01.jpg"
+export function getAlbumItemDownload(
+  memory: Memory,
+  index: number,
+  adapter: StorageAdapter = getStorage(),
+): DownloadFile | null {
+  const items = memory.album_photos || [];
+  if (!items[index]) return null;
+  const digits = String(items.length).length;
+  return toDownloadFile(items[index], `${getDownloadBaseName(memory)} ${String(index + 1).padStart(digits, '0')}`, adapter);
+}
+
+// Every file of a memory: its album items, or the photo or video itself.
+// `folder` puts them in a folder of the ZIP.
+export function getMemoryDownloads(memory: Memory, folder = '', adapter: StorageAdapter = getStorage()): DownloadFile[] {
+  const files = memory.album_photos?.length
+    ? memory.album_photos.map((_, index) => getAlbumItemDownload(memory, index, adapter))
+    : [toDownloadFile(memory, getDownloadBaseName(memory), adapter)];
+  return files
+    .filter((file): file is DownloadFile => file !== null)
+    .map(file => (folder ? { ...file, name: `${folder}/${file.name}` } : file));
+}
+
+// Two memories with the same title and date would clash; later ones get a
+// counter: "Trip 2019-06-08 (2).jpg"
+function deduplicateNames(files: DownloadFile[]): DownloadFile[] {
+  const used = new Set<string>();
+  return files.map((file) => {
+    let name = file.name;
+    for (let counter = 2; used.has(name.toLowerCase()); counter++) {
+      name = file.name.replace(/(\.[\w]+)?$/, ext => ` (${counter})${ext}`);
+    }
+    used.add(name.toLowerCase());
+    return { ...file, name };
+  });
+}
+
+// Streams the ZIP `write` fills in as it is written. Errors after the
+// response has begun can only cut it short.
+export function streamZip(write: (zip: ZipWriter<unknown>) => Promise<void>): ReadableStream<Uint8Array> {
+  let controller!: TransformStreamDefaultController<Uint8Array>;
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+    },
+  });
+  // Photos and videos are compressed already, so they are stored as they are
+  const zip = new ZipWriter(writable, { level: 0, zip64: true, useWebWorkers: false });
+
+  write(zip)
+    .then(() => zip.close())
+    .catch((error) => {
+      console.error('Error writing ZIP:', error);
+      controller.error(error);
+    });
+
+  return readable;
+}
+
+// Streams a ZIP of the files, each read from storage only as its turn comes
+export function createZipStream(files: DownloadFile[], adapter: StorageAdapter = getStorage()): ReadableStream<Uint8Array> {
+  return streamZip(async (zip) => {
+    for (const { path, name } of deduplicateNames(files)) {
+      await zip.add(name, await adapter.read(path));
+    }
+  });
+}
+
+// `attachment` with the name in plain ASCII for old clients and UTF-8 for the rest
+export function getContentDisposition(name: string): string {
+  const fallback = name.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, '');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
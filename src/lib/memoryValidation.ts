@@ -0,0 +1,533 @@
+import {
+  decodeCursor,
+  type DatePrecision,
+  type ListMemoryPageOptions,
+  type MemoryChanges,
+  type MemoryId,
+  type MemoryType,
+} from '@/lib/memories';
+import { isDatePrecision, normalizeMemoryDate } from '@/lib/memoryDate';
+import { isObjectName } from '@/lib/storage/fileName';
+
+export type ValidationResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+// A video thumbnail image and its pixel size, when the client sent it
+export interface ThumbnailUpload {
+  file: File;
+  width: number | null;
+  height: number | null;
+}
+
+// One file of a new memory: a photo, or a video with its own duration and
+// thumbnails. Albums may mix both.
+export interface NewMemoryItem {
+  type: MemoryType;
+  duration: string | null;
+  thumbnails: ThumbnailUpload[];
+}
+
+export interface NewMemoryUpload {
+  // Type of the memory, which is that of its first file, the cover
+  type: MemoryType;
+  title: string;
+  description: string | null;
+  date: string;
+  datePrecision: DatePrecision;
+  tags: string[];
+  latitude: number | null;
+  longitude: number | null;
+  width: number | null;
+  height: number | null;
+  codec: string | null;
+  files: File[];
+  // Object paths of files already sent through a resumable upload
+  uploads: string[];
+  // Object path of each upload's full-size original, or null when the
+  // upload is the original itself
+  originals: (string | null)[];
+  // SHA-256 of each file's original, in the same order, when the client sent them
+  hashes: string[];
+  // Caption of each album item, in the same order; null where there is none
+  captions: (string | null)[];
+  // What each file is, in the same order
+  items: NewMemoryItem[];
+}
+
+const MAX_TITLE_LENGTH = 200;
+export const MAX_DESCRIPTION_LENGTH = 5000;
+export const MAX_CAPTION_LENGTH = 500;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 50;
+const MAX_PAGE_SIZE = 100;
+const MAX_DIMENSION = 100000;
+const MAX_CODEC_LENGTH = 32;
+const MAX_THUMBNAILS = 4;
+
+const isMemoryType = (value: unknown): value is MemoryType =>
+  value === 'photo' || value === 'video';
+
+const isContentHash = (value: unknown): value is string =>
+  typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+
+const isFile = (value: unknown): value is File =>
+  typeof value === 'object' && value !== null && 'arrayBuffer' in value && 'name' in value;
+
+function parseTitle(value: unknown): ValidationResult<string> {
+  if (typeof value !== 'string' || !value.trim()) {
+    return { error: 'Title is required' };
+  }
+  if (value.trim().length > MAX_TITLE_LENGTH) {
+    return { error: `Title must be at most ${MAX_TITLE_LENGTH} characters` };
+  }
+  return { value: value.trim() };
+}
+
+// Optional free text; blank means none
+function parseText(value: unknown, field: string, maxLength: number): ValidationResult<string | null> {
+  if (value === null || value === undefined) return { value: null };
+  if (typeof value !== 'string') return { error: `${field} must be a string` };
+  const text = value.trim();
+  if (text.length > maxLength) return { error: `${field} must be at most ${maxLength} characters` };
+  return { value: text || null };
+}
+
+function parseDate(value: unknown): ValidationResult<string> {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    return { error: 'Date must be a valid ISO 8601 date' };
+  }
+  return { value: new Date(value).toISOString() };
+}
+
+function parseDatePrecision(value: unknown): ValidationResult<DatePrecision> {
+  if (value === null || value === undefined || value === '') return { value: 'day' };
+  if (!isDatePrecision(value)) return { error: 'date_precision must be "day", "month" or "year"' };
+  return { value };
+}
+
+function parseTags(value: unknown): ValidationResult<string[]> {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    return { error: 'Tags must be an array of strings' };
+  }
+  const tags = Array.from(new Set((value as string[]).map(tag => tag.trim()).filter(Boolean)));
+  if (tags.length > MAX_TAGS) {
+    return { error: `At most ${MAX_TAGS} tags are allowed` };
+  }
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    return { error: `Tags must be at most ${MAX_TAG_LENGTH} characters` };
+  }
+  return { value: tags };
+}
+
+function parseDuration(value: unknown): ValidationResult<string | null> {
+  if (value === null || value === undefined || value === '') return { value: null };
+  if (typeof value !== 'string' || !/^(\d+:)?\d{1,2}:\d{2}$/.test(value)) {
+    return { error: 'Duration must look like m:ss or h:mm:ss' };
+  }
+  return { value };
+}
+
+// Both coordinates or neither; form fields arrive as strings
+function parseLocation(
+  latitude: unknown,
+  longitude: unknown,
+): ValidationResult<{ latitude: number | null; longitude: number | null }> {
+  const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+  if (isEmpty(latitude) && isEmpty(longitude)) {
+    return { value: { latitude: null, longitude: null } };
+  }
+
+  const lat = typeof latitude === 'string' ? Number(latitude) : latitude;
+  const lng = typeof longitude === 'string' ? Number(longitude) : longitude;
+  if (typeof lat !== 'number' || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+    return { error: 'latitude must be a number between -90 and 90' };
+  }
+  if (typeof lng !== 'number' || !Number.isFinite(lng) || lng < -180 || lng > 180) {
+    return { error: 'longitude must be a number between -180 and 180' };
+  }
+  return { value: { latitude: lat, longitude: lng } };
+}
+
+// Width and height together or neither, as positive whole pixels
+function parseDimensions(
+  width: unknown,
+  height: unknown,
+): ValidationResult<{ width: number | null; height: number | null }> {
+  const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+  if (isEmpty(width) && isEmpty(height)) {
+    return { value: { width: null, height: null } };
+  }
+
+  const isDimension = (value: number) => Number.isInteger(value) && value > 0 && value <= MAX_DIMENSION;
+  const w = Number(width);
+  const h = Number(height);
+  if (isEmpty(width) || isEmpty(height) || !isDimension(w) || !isDimension(h)) {
+    return { error: `width and height must both be whole numbers between 1 and ${MAX_DIMENSION}` };
+  }
+  return { value: { width: w, height: h } };
+}
+
+function parseCodec(value: unknown): ValidationResult<string | null> {
+  if (value === null || value === undefined || value === '') return { value: null };
+  if (typeof value !== 'string' || value.length > MAX_CODEC_LENGTH || !/^[\w. -]+$/.test(value)) {
+    return { error: `codec must be a name of at most ${MAX_CODEC_LENGTH} characters` };
+  }
+  return { value };
+}
+
+// One or more `thumbnail` image parts, each size of the same picture, with
+// one `thumbnail_size` ("640x360") per part. A single thumbnail may come
+// without its size. Album videos add their index to both names
+// (`thumbnail_2`, `thumbnail_size_2`).
+export function parseThumbnails(form: FormData, suffix = ''): ValidationResult<ThumbnailUpload[]> {
+  const files = form.getAll(`thumbnail${suffix}`);
+  const sizes = form.getAll(`thumbnail_size${suffix}`);
+  if (!files.every(file => isFile(file) && file.type.startsWith('image/'))) {
+    return { error: 'Thumbnail must be an image' };
+  }
+  if (files.length > MAX_THUMBNAILS) {
+    return { error: `At most ${MAX_THUMBNAILS} thumbnail sizes` };
+  }
+  if (sizes.length !== files.length && (files.length > 1 || sizes.length > 0)) {
+    return { error: 'Send one thumbnail_size per thumbnail' };
+  }
+
+  const thumbnails: ThumbnailUpload[] = [];
+  for (const [index, file] of (files as File[]).entries()) {
+    const size = sizes[index];
+    const [width, height] = typeof size === 'string' ? size.split('x') : [];
+    const dimensions = parseDimensions(width, height);
+    if (dimensions.error !== undefined) {
+      return { error: 'thumbnail_size must look like 640x360' };
+    }
+    thumbnails.push({ file, ...dimensions.value });
+  }
+  return { value: thumbnails };
+}
+
+export function parseMemoryId(value: string): MemoryId | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// Most memories one ZIP download may hold
+export const MAX_DOWNLOAD_MEMORIES = 200;
+
+// Memories picked for a download, as repeated `id` parameters
+export function parseDownloadIds(params: URLSearchParams): ValidationResult<MemoryId[]> {
+  const rawIds = params.getAll('id');
+  if (rawIds.length === 0) return { error: 'Pick at least one memory' };
+  if (rawIds.length > MAX_DOWNLOAD_MEMORIES) {
+    return { error: `At most ${MAX_DOWNLOAD_MEMORIES} memories can be downloaded at once` };
+  }
+  const ids = rawIds.map(parseMemoryId);
+  if (ids.some(id => id === null)) return { error: 'Invalid memory id' };
+  return { value: Array.from(new Set(ids as MemoryId[])) };
+}
+
+export function parseListFilters(params: URLSearchParams): ValidationResult<ListMemoryPageOptions> {
+  const options: ListMemoryPageOptions = {};
+
+  const type = params.get('type');
+  if (type) {
+    if (!isMemoryType(type)) return { error: 'type must be "photo" or "video"' };
+    options.type = type;
+  }
+
+  const tag = params.get('tag');
+  if (tag) options.tag = tag;
+
+  const search = params.get('q');
+  if (search) options.search = search;
+
+  if (params.get('located') === 'true') options.located = true;
+
+  const hashes = params.getAll('hash');
+  if (hashes.length > 0) {
+    if (!hashes.every(isContentHash)) return { error: 'hash must be a hex SHA-256 digest' };
+    if (hashes.length > MAX_PAGE_SIZE) return { error: `At most ${MAX_PAGE_SIZE} hashes are allowed` };
+    options.hashes = hashes;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const raw = params.get(key);
+    if (raw) {
+      const date = parseDate(raw);
+      if (date.error !== undefined) return { error: `${key}: ${date.error}` };
+      options[key] = date.value;
+    }
+  }
+
+  const limit = params.get('limit');
+  if (limit) {
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PAGE_SIZE) {
+      return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    options.limit = value;
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    if (!decodeCursor(cursor)) return { error: 'Invalid cursor' };
+    options.cursor = cursor;
+  }
+
+  return { value: options };
+}
+
+// Validates the JSON body of an update; only the listed fields may be changed
+export function parseMemoryChanges(body: unknown): ValidationResult<MemoryChanges> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const input = body as Record<string, unknown>;
+  const allowed = ['title', 'description', 'date', 'date_precision', 'tags', 'duration', 'latitude', 'longitude'];
+  const unknownKeys = Object.keys(input).filter(key => !allowed.includes(key));
+  if (unknownKeys.length > 0) {
+    return { error: `Unknown fields: ${unknownKeys.join(', ')}` };
+  }
+
+  const changes: MemoryChanges = {};
+  if ('title' in input) {
+    const title = parseTitle(input.title);
+    if (title.error !== undefined) return title;
+    changes.title = title.value;
+  }
+  if ('description' in input) {
+    const description = parseText(input.description, 'description', MAX_DESCRIPTION_LENGTH);
+    if (description.error !== undefined) return description;
+    changes.description = description.value;
+  }
+  // A date sent alone is exact to the day
+  if ('date' in input || 'date_precision' in input) {
+    if (!('date' in input)) {
+      return { error: 'date_precision must be changed together with date' };
+    }
+    const date = parseDate(input.date);
+    if (date.error !== undefined) return date;
+    const precision = parseDatePrecision(input.date_precision);
+    if (precision.error !== undefined) return precision;
+    changes.date = normalizeMemoryDate(date.value, precision.value);
+    changes.date_precision = precision.value;
+  }
+  if ('tags' in input) {
+    const tags = parseTags(input.tags);
+    if (tags.error !== undefined) return tags;
+    changes.tags = tags.value;
+  }
+  if ('duration' in input) {
+    const duration = parseDuration(input.duration);
+    if (duration.error !== undefined) return duration;
+    changes.duration = duration.value;
+  }
+  if ('latitude' in input || 'longitude' in input) {
+    if (!('latitude' in input && 'longitude' in input)) {
+      return { error: 'latitude and longitude must be changed together' };
+    }
+    const location = parseLocation(input.latitude, input.longitude);
+    if (location.error !== undefined) return location;
+    Object.assign(changes, location.value);
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { error: 'Nothing to update' };
+  }
+  return { value: changes };
+}
+
+// Validates the multipart form used to create a memory: one `file` for a
+// single photo or video, or several `files` for a photo album. Files that
+// were uploaded resumably beforehand are passed by object path as `upload`
+// instead, in the same order. Photo uploads that are resized display versions
+// add one `original` per `upload`, left empty for photos kept as they are.
+// An optional `hash` per file or upload records the original's SHA-256.
+export function parseNewMemoryForm(form: FormData): ValidationResult<NewMemoryUpload> {
+  const type = form.get('type');
+  if (!isMemoryType(type)) return { error: 'type must be "photo" or "video"' };
+
+  const title = parseTitle(form.get('title'));
+  if (title.error !== undefined) return title;
+
+  const description = parseText(form.get('description'), 'description', MAX_DESCRIPTION_LENGTH);
+  if (description.error !== undefined) return description;
+
+  const rawDate = form.get('date');
+  const date = rawDate ? parseDate(rawDate) : { value: new Date().toISOString() };
+  if (date.error !== undefined) return date;
+
+  const datePrecision = parseDatePrecision(form.get('date_precision'));
+  if (datePrecision.error !== undefined) return datePrecision;
+
+  let tags: ValidationResult<string[]> = { value: [] };
+  const rawTags = form.get('tags');
+  if (typeof rawTags === 'string' && rawTags) {
+    try {
+      tags = parseTags(JSON.parse(rawTags));
+    } catch {
+      return { error: 'Tags must be a JSON array of strings' };
+    }
+  }
+  if (tags.error !== undefined) return tags;
+
+  const location = parseLocation(form.get('latitude'), form.get('longitude'));
+  if (location.error !== undefined) return location;
+
+  const dimensions = parseDimensions(form.get('width'), form.get('height'));
+  if (dimensions.error !== undefined) return dimensions;
+
+  const codec = parseCodec(form.get('codec'));
+  if (codec.error !== undefined) return codec;
+
+  const files = [...form.getAll('file'), ...form.getAll('files')];
+  const uploads = form.getAll('upload');
+  if (!files.every(isFile) || !uploads.every(path => typeof path === 'string' && isObjectName(path))) {
+    return { error: 'Files must be file parts and uploads valid object paths' };
+  }
+  if (files.length === 0 && uploads.length === 0) {
+    return { error: 'At least one file is required' };
+  }
+  if (files.length > 0 && uploads.length > 0) {
+    return { error: 'Send either files or uploads, not both' };
+  }
+
+  // Albums mixing photos and videos send one `item_type` per file; without
+  // them every file is of the memory's type
+  const count = files.length + uploads.length;
+  const rawItemTypes = form.getAll('item_type');
+  let itemTypes: MemoryType[] = Array(count).fill(type);
+  if (rawItemTypes.length > 0) {
+    if (rawItemTypes.length !== count) return { error: 'Send one item_type per file' };
+    if (!rawItemTypes.every(isMemoryType)) return { error: 'item_type must be "photo" or "video"' };
+    if (rawItemTypes[0] !== type) return { error: 'type must be the type of the first file, the cover' };
+    itemTypes = rawItemTypes as MemoryType[];
+  } else if (type === 'video' && count > 1) {
+    return { error: 'Albums with videos must send an item_type per file' };
+  }
+
+  const mismatched = files.findIndex((file, index) => (
+    !file.type.startsWith(itemTypes[index] === 'photo' ? 'image/' : 'video/')
+  ));
+  if (mismatched !== -1) {
+    return { error: `File ${mismatched + 1} must be ${itemTypes[mismatched] === 'photo' ? 'an image' : 'a video'}` };
+  }
+
+  const originals = form.getAll('original');
+  if (originals.length > 0) {
+    if (originals.length !== uploads.length) {
+      return { error: 'Send one original per upload' };
+    }
+    if (originals.some((path, index) => path !== '' && itemTypes[index] !== 'photo')) {
+      return { error: 'Only photos take originals' };
+    }
+    if (!originals.every(path => typeof path === 'string' && (path === '' || isObjectName(path)))) {
+      return { error: 'Originals must be valid object paths' };
+    }
+  }
+
+  const hashes = form.getAll('hash');
+  if (hashes.length > 0) {
+    if (hashes.length !== files.length + uploads.length) {
+      return { error: 'Send one hash per file' };
+    }
+    if (!hashes.every(isContentHash)) return { error: 'hash must be a hex SHA-256 digest' };
+  }
+
+  const captions: (string | null)[] = [];
+  const rawCaptions = form.getAll('caption');
+  if (rawCaptions.length > 0) {
+    if (rawCaptions.length !== count) {
+      return { error: 'Send one caption per file' };
+    }
+    for (const rawCaption of rawCaptions) {
+      const caption = parseText(rawCaption, 'caption', MAX_CAPTION_LENGTH);
+      if (caption.error !== undefined) return caption;
+      captions.push(caption.value);
+    }
+  }
+
+  // A single video sends its duration and thumbnails as they are; album
+  // videos add their index to the field names (`duration_2`)
+  const items: NewMemoryItem[] = [];
+  for (const [index, itemType] of itemTypes.entries()) {
+    const suffix = count > 1 ? `_${index}` : '';
+    const itemDuration = parseDuration(form.get(`duration${suffix}`));
+    if (itemDuration.error !== undefined) return itemDuration;
+    const itemThumbnails = parseThumbnails(form, suffix);
+    if (itemThumbnails.error !== undefined) return itemThumbnails;
+    if (itemType === 'photo' && itemThumbnails.value.length > 0) {
+      return { error: 'Only videos take a thumbnail' };
+    }
+    items.push({
+      type: itemType,
+      duration: itemType === 'video' ? itemDuration.value : null,
+      thumbnails: itemThumbnails.value,
+    });
+  }
+
+  if (type === 'photo' && codec.value !== null) {
+    return { error: 'Only videos take a codec' };
+  }
+
+  return {
+    value: {
+      type,
+      title: title.value,
+      description: description.value,
+      date: normalizeMemoryDate(date.value, datePrecision.value),
+      datePrecision: datePrecision.value,
+      tags: tags.value,
+      ...location.value,
+      ...dimensions.value,
+      codec: codec.value,
+      files,
+      uploads: uploads as string[],
+      originals: originals.map(path => (path as string) || null),
+      hashes: hashes as string[],
+      captions,
+      items,
+    },
+  };
+}
+
+export interface DiscardedUpload {
+  path: string;
+  // Issued with the object name; proves the client uploaded it
+  token: string;
+}
+
+// Body of a request to discard resumable uploads that never became a memory:
+// `{ "uploads": [{ "path": "<object path>", "token": "..." }, ...] }`
+export function parseDiscardedUploads(body: unknown): ValidationResult<DiscardedUpload[]> {
+  const uploads = typeof body === 'object' && body !== null ? (body as { uploads?: unknown }).uploads : undefined;
+  if (!Array.isArray(uploads) || uploads.length === 0) return { error: 'uploads must be a non-empty array' };
+  if (uploads.length > MAX_PAGE_SIZE) return { error: `At most ${MAX_PAGE_SIZE} uploads at a time` };
+  const valid = uploads.every((upload) => {
+    const { path, token } = typeof upload === 'object' && upload !== null ? upload as Record<string, unknown> : {};
+    return typeof path === 'string' && isObjectName(path) && typeof token === 'string';
+  });
+  if (!valid) return { error: 'uploads must each have an object path and its token' };
+  return { value: uploads as DiscardedUpload[] };
+}
+
+// Body asking for an object name to upload a file under, `{ name }`
+export function parseUploadName(body: unknown): ValidationResult<string> {
+  const name = typeof body === 'object' && body !== null ? (body as { name?: unknown }).name : undefined;
+  if (typeof name !== 'string' || !name.trim()) return { error: 'name must be the file name' };
+  return { value: name };
+}
+
+// Body of a tag rename or merge, `{ tags, to }`: every tag in `tags` becomes
+// `to`. A delete sends `{ tags }` alone.
+export function parseTagChange(body: unknown, { rename }: { rename: boolean }): ValidationResult<{ tags: string[]; to: string | null }> {
+  const input = typeof body === 'object' && body !== null ? body as { tags?: unknown; to?: unknown } : {};
+  const tags = parseTags(input.tags);
+  if (tags.error !== undefined) return tags;
+  if (tags.value.length === 0) return { error: 'tags must not be empty' };
+  if (!rename) return { value: { tags: tags.value, to: null } };
+
+  if (typeof input.to !== 'string' || !input.to.trim()) return { error: 'to must be the new tag name' };
+  const to = parseTags([input.to]);
+  if (to.error !== undefined) return to;
+  return { value: { tags: tags.value, to: to.value[0] } };
+}
@@ -0,0 +1,125 @@
+import * as tus from 'tus-js-client';
+import { supabase } from '@/lib/supabase';
+import { LOCAL_UPLOAD_ROUTE, STORAGE_BACKEND, STORAGE_BUCKET } from '@/lib/mediaUrl';
+import { createFileName } from '@/lib/storage/fileName';
+
+// Supabase's resumable endpoint only accepts 6MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Keeps retrying through a minute or so of lost network before giving up
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000, 30000];
+
+// Paths the discard endpoint takes per request
+const DISCARD_BATCH_SIZE = 100;
+
+// Tokens issued with the object names of this page's uploads, needed to
+// discard them. Uploads resumed after a reload have none; the orphan sweep
+// takes care of those.
+const uploadTokens = new Map<string, string>();
+
+export interface ResumableUploadOptions {
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+}
+
+function getEndpoint(): string {
+  if (STORAGE_BACKEND === 'local') {
+    return `${window.location.origin}${LOCAL_UPLOAD_ROUTE}`;
+  }
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`;
+}
+
+async function getHeaders(): Promise<Record<string, string>> {
+  if (STORAGE_BACKEND === 'local') return {};
+
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    apikey: anonKey,
+    authorization: `Bearer ${session?.access_token || anonKey}`,
+    'x-upsert': 'false',
+  };
+}
+
+// Asks the server for the object name to upload under, with its token. Falls
+// back to a name of our own, which can't be discarded, when that fails.
+async function requestObjectName(file: File): Promise<string> {
+  try {
+    const response = await fetch(`${LOCAL_UPLOAD_ROUTE}/tokens`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: file.name }),
+    });
+    if (!response.ok) throw new Error(`Request failed with status ${response.status}`);
+    const { path, token } = await response.json() as { path: string; token: string };
+    uploadTokens.set(path, token);
+    return path;
+  } catch (error) {
+    console.error('Error requesting upload name:', error);
+    return createFileName(file.name);
+  }
+}
+
+// Uploads a file in chunks over tus to the active storage backend and
+// resolves with its object path. tus remembers unfinished uploads in
+// localStorage, so picking the same file again, even after a page reload,
+// continues from the last chunk the server has instead of starting over.
+export async function uploadResumable(file: File, { onProgress }: ResumableUploadOptions = {}): Promise<string> {
+  const headers = await getHeaders();
+  const objectName = await requestObjectName(file);
+
+  return new Promise((resolve, reject) => {
+    const metadata = {
+      bucketName: STORAGE_BUCKET,
+      objectName,
+      contentType: file.type || 'application/octet-stream',
+    };
+
+    const upload = new tus.Upload(file, {
+      endpoint: getEndpoint(),
+      headers,
+      metadata,
+      chunkSize: CHUNK_SIZE,
+      retryDelays: RETRY_DELAYS,
+      removeFingerprintOnSuccess: true,
+      onProgress,
+      onSuccess: () => resolve(metadata.objectName),
+      onError: reject,
+    });
+
+    upload.findPreviousUploads()
+      .then((previousUploads) => {
+        const [previous] = previousUploads
+          .filter(({ metadata }) => metadata.objectName)
+          .sort((a, b) => b.creationTime.localeCompare(a.creationTime));
+
+        // Keep the object name the interrupted upload was created with
+        if (previous) {
+          metadata.objectName = previous.metadata.objectName;
+          upload.resumeFromPreviousUpload(previous);
+        }
+        upload.start();
+      })
+      .catch(reject);
+  });
+}
+
+// Deletes finished uploads that never made it into a memory, e.g. the photos
+// of an album whose creation failed. Best effort: the admin orphan sweep
+// catches whatever this misses.
+export async function discardUploads(paths: string[]): Promise<void> {
+  const uploads = paths
+    .filter(path => uploadTokens.has(path))
+    .map(path => ({ path, token: uploadTokens.get(path)! }));
+  for (let i = 0; i < uploads.length; i += DISCARD_BATCH_SIZE) {
+    try {
+      await fetch(LOCAL_UPLOAD_ROUTE, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ uploads: uploads.slice(i, i + DISCARD_BATCH_SIZE) }),
+      });
+    } catch (error) {
+      console.error('Error discarding uploads:', error);
+    }
+  }
+  uploads.forEach(({ path }) => uploadTokens.delete(path));
+}
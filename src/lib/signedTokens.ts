@@ -0,0 +1,29 @@
+// Short-lived tokens the server signs and later checks, for requests that
+// can't carry the admin's access token or must prove where they came from
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// Server only, and never sent to the browser
+const secret = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const sign = (subject: string, issuedAt: string) =>
+  createHmac('sha256', secret).update(`${subject}:${issuedAt}`).digest('base64url');
+
+// A token for `subject`: when it was issued, and the signature
+export function createSignedToken(subject: string): string {
+  if (!secret) throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+  const issuedAt = Date.now().toString(36);
+  return `${issuedAt}.${sign(subject, issuedAt)}`;
+}
+
+export function verifySignedToken(subject: string, token: string, maxAgeMs: number): boolean {
+  if (!secret) return false;
+  const [issuedAt, signature] = token.split('.');
+  if (!issuedAt || !signature) return false;
+  const age = Date.now() - parseInt(issuedAt, 36);
+  if (!(age >= 0 && age <= maxAgeMs)) return false;
+
+  const expected = Buffer.from(sign(subject, issuedAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,15 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Object names are random so uploads never collide; only the extension is
+// kept, in word characters so the name passes isObjectName. A leading dot
+// (".hidden") doesn't start one.
+export function createFileName(originalName: string, prefix = ''): string {
+  const dot = originalName.lastIndexOf('.');
+  const fileExt = dot > 0 ? originalName.slice(dot + 1).replace(/\W/g, '') : '';
+  return `${prefix}${uuidv4()}${fileExt ? `.${fileExt}` : ''}`;
+}
+
+// Names produced by createFileName, for validating ones sent back by clients
+export function isObjectName(value: string): boolean {
+  return /^[\w-]+(\.[\w]+)?$/.test(value);
+}
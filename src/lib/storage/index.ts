@@ -0,0 +1,99 @@
+// Server-side entry point for memory file storage. The backend is picked with
+// NEXT_PUBLIC_STORAGE_BACKEND (`supabase`, the default, or `local`).
+
+import { listMemoryFiles, listReferencedObjectPaths, type Memory, type MemoryFiles, type Thumbnail } from '@/lib/memories';
+import type { ThumbnailUpload } from '@/lib/memoryValidation';
+import { STORAGE_BACKEND, STORAGE_BUCKET } from '@/lib/mediaUrl';
+import { supabaseServer } from '@/lib/supabaseServer';
+import { createLocalStorage } from '@/lib/storage/localStorage';
+import { createSupabaseStorage } from '@/lib/storage/supabaseStorage';
+import { createFileName } from '@/lib/storage/fileName';
+import type { StorageAdapter, StoredFile } from '@/lib/storage/types';
+
+export type { StorageAdapter, StoredFile, StoredObject } from '@/lib/storage/types';
+export { createFileName, isObjectName } from '@/lib/storage/fileName';
+
+let storage: StorageAdapter | null = null;
+
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = STORAGE_BACKEND === 'local'
+      ? createLocalStorage()
+      : createSupabaseStorage(supabaseServer, STORAGE_BUCKET);
+  }
+  return storage;
+}
+
+export function getMemoryStoragePaths(memory: MemoryFiles, adapter: StorageAdapter = getStorage()): string[] {
+  const values = [
+    memory.src,
+    memory.original,
+    memory.thumbnail,
+    ...(memory.thumbnails || []).map(thumbnail => thumbnail.src),
+    ...(memory.album_photos || []).flatMap(item => [
+      item.src,
+      item.original,
+      item.thumbnail,
+      ...(item.thumbnails || []).map(thumbnail => thumbnail.src),
+    ]),
+  ].filter((value): value is string => !!value);
+
+  return Array.from(new Set(values.map(value => adapter.toPath(value))));
+}
+
+// Stores a video's thumbnails under fresh names, pushing each onto `stored`
+// so the caller can roll them back. Resolves with the memory's `thumbnail`,
+// the largest, and its `thumbnails`, smallest first, when sizes were sent.
+export async function uploadThumbnails(
+  uploads: ThumbnailUpload[],
+  stored: StoredFile[],
+  adapter: StorageAdapter = getStorage(),
+): Promise<Pick<Memory, 'thumbnail' | 'thumbnails'>> {
+  const sorted = [...uploads].sort((a, b) => (a.width ?? 0) - (b.width ?? 0));
+  const thumbnails: Thumbnail[] = [];
+  let largest: string | null = null;
+  for (const { file, width, height } of sorted) {
+    const storedThumbnail = await adapter.upload(createFileName(file.name || 'thumbnail.jpg', 'thumbnail_'), file);
+    stored.push(storedThumbnail);
+    largest = storedThumbnail.publicUrl;
+    if (width && height) {
+      thumbnails.push({ src: largest, width, height });
+    }
+  }
+
+  return { thumbnail: largest, thumbnails: thumbnails.length > 0 ? thumbnails : null };
+}
+
+// How long an object may sit unreferenced before it counts as orphaned, so
+// uploads still waiting for their memory to be created are left alone
+export const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+async function listReferencedPaths(adapter: StorageAdapter): Promise<Set<string>> {
+  const memories = await listMemoryFiles(supabaseServer);
+  return new Set(memories.flatMap(memory => getMemoryStoragePaths(memory, adapter)));
+}
+
+// Removes the given objects unless a memory points at them. Lets a client
+// roll back uploads whose memory was never created; callers check that the
+// objects are the client's own first (see verifyUploadToken).
+export async function discardUnreferencedPaths(paths: string[], adapter: StorageAdapter = getStorage()): Promise<string[]> {
+  if (paths.length === 0) return [];
+
+  const referenced = await listReferencedObjectPaths(paths, supabaseServer);
+  const orphaned = paths.filter(path => !referenced.has(path));
+  await adapter.remove(orphaned);
+  return orphaned;
+}
+
+// Removes every object no memory points at that is older than the grace
+// period: uploads abandoned before their memory was created
+export async function removeOrphanedObjects(adapter: StorageAdapter = getStorage()): Promise<string[]> {
+  const [objects, referenced] = await Promise.all([adapter.list(), listReferencedPaths(adapter)]);
+  const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS;
+  const orphaned = objects
+    .filter(({ path, createdAt }) => !referenced.has(path) && createdAt.getTime() < cutoff)
+    .map(({ path }) => path);
+
+  await adapter.remove(orphaned);
+  return orphaned;
+}
@@ -0,0 +1,73 @@
+import { createReadStream } from 'node:fs';
+import { mkdir, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { getLocalMediaUrl, LOCAL_MEDIA_ROUTE } from '@/lib/mediaUrl';
+import type { StorageAdapter } from '@/lib/storage/types';
+
+export const LOCAL_MEDIA_DIR = path.resolve(process.env.LOCAL_MEDIA_DIR || 'media');
+
+// Resolves an object path inside the media root, rejecting anything that
+// would escape it (`..`, absolute paths) or reach a hidden entry such as the
+// resumable upload staging directory
+export function resolveLocalPath(objectPath: string, rootDir = LOCAL_MEDIA_DIR): string | null {
+  const resolved = path.resolve(rootDir, objectPath);
+  if (!resolved.startsWith(rootDir + path.sep)) return null;
+  return path.relative(rootDir, resolved).split(path.sep).some(segment => segment.startsWith('.'))
+    ? null
+    : resolved;
+}
+
+export function createLocalStorage(rootDir = LOCAL_MEDIA_DIR): StorageAdapter {
+  const routePrefix = `${LOCAL_MEDIA_ROUTE}/`;
+
+  const resolveOrThrow = (objectPath: string) => {
+    const filePath = resolveLocalPath(objectPath, rootDir);
+    if (!filePath) throw new Error(`Invalid storage path: ${objectPath}`);
+    return filePath;
+  };
+
+  return {
+    async upload(objectPath, file) {
+      const filePath = resolveOrThrow(objectPath);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      // `wx` fails instead of overwriting, like a Supabase upload without upsert
+      await writeFile(filePath, Buffer.from(await file.arrayBuffer()), { flag: 'wx' });
+
+      return { path: objectPath, publicUrl: getLocalMediaUrl(objectPath) };
+    },
+
+    async remove(paths) {
+      await Promise.all(paths.map(objectPath => rm(resolveOrThrow(objectPath), { force: true })));
+    },
+
+    async list() {
+      const entries = await readdir(rootDir, { recursive: true, withFileTypes: true }).catch(() => []);
+      const objectPaths = entries
+        .filter(entry => entry.isFile())
+        .map(entry => path.relative(rootDir, path.join(entry.parentPath, entry.name)))
+        // Skips the resumable upload staging directory and other hidden files
+        .filter(objectPath => resolveLocalPath(objectPath, rootDir));
+
+      return Promise.all(objectPaths.map(async (objectPath) => {
+        const { birthtime, mtime } = await stat(path.join(rootDir, objectPath));
+        return { path: objectPath.split(path.sep).join('/'), createdAt: birthtime.getTime() ? birthtime : mtime };
+      }));
+    },
+
+    async read(objectPath) {
+      const filePath = resolveOrThrow(objectPath);
+      // Fails here for a missing file rather than once streaming has begun
+      await stat(filePath);
+      return Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+    },
+
+    getPublicUrl: getLocalMediaUrl,
+
+    toPath(value) {
+      const prefixIndex = value.indexOf(routePrefix);
+      if (prefixIndex === -1) return value;
+      return decodeURIComponent(value.slice(prefixIndex + routePrefix.length).split('?')[0]);
+    },
+  };
+}
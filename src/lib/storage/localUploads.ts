@@ -0,0 +1,116 @@
+// Resumable (tus) uploads for the local-disk backend. Each upload is staged
+// as a partial file plus a small JSON descriptor under LOCAL_UPLOADS_DIR and
+// moved into the media root under its object name once every byte arrived.
+// The Supabase backend takes tus uploads itself and needs none of this.
+
+import { createWriteStream } from 'node:fs';
+import { link, mkdir, readFile, rm, stat, truncate, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { v4 as uuidv4 } from 'uuid';
+import { LOCAL_MEDIA_DIR, resolveLocalPath } from '@/lib/storage/localStorage';
+
+// Hidden, so resolveLocalPath never serves or overwrites staged files
+export const LOCAL_UPLOADS_DIR = path.join(LOCAL_MEDIA_DIR, '.uploads');
+
+// Sent with every response of the tus endpoints
+export const TUS_HEADERS = { 'Tus-Resumable': '1.0.0' };
+
+export interface LocalUpload {
+  id: string;
+  length: number;
+  offset: number;
+  objectName: string;
+  contentType: string;
+}
+
+type UploadDescriptor = Omit<LocalUpload, 'id' | 'offset'>;
+
+const isUploadId = (value: string) => /^[0-9a-f-]{36}$/.test(value);
+
+const descriptorPath = (id: string) => path.join(LOCAL_UPLOADS_DIR, `${id}.json`);
+const partPath = (id: string) => path.join(LOCAL_UPLOADS_DIR, `${id}.part`);
+
+// Decodes a tus `Upload-Metadata` header: comma-separated `key base64value` pairs
+export function parseUploadMetadata(header: string | null): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const pair of (header || '').split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (key) metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+  }
+  return metadata;
+}
+
+export async function createLocalUpload(descriptor: UploadDescriptor): Promise<LocalUpload> {
+  if (!resolveLocalPath(descriptor.objectName)) {
+    throw new Error(`Invalid storage path: ${descriptor.objectName}`);
+  }
+
+  const id = uuidv4();
+  await mkdir(LOCAL_UPLOADS_DIR, { recursive: true });
+  await writeFile(partPath(id), '', { flag: 'wx' });
+  await writeFile(descriptorPath(id), JSON.stringify(descriptor));
+
+  const upload = { id, offset: 0, ...descriptor };
+  return upload.length === 0 ? completeLocalUpload(upload) : upload;
+}
+
+export async function getLocalUpload(id: string): Promise<LocalUpload | null> {
+  if (!isUploadId(id)) return null;
+
+  try {
+    const descriptor: UploadDescriptor = JSON.parse(await readFile(descriptorPath(id), 'utf8'));
+    const { size } = await stat(partPath(id));
+    return { id, offset: size, ...descriptor };
+  } catch {
+    return null;
+  }
+}
+
+// Appends a chunk at the upload's current offset. A chunk cut short by a
+// dropped connection is kept, so the client resumes right after its last byte.
+export async function appendLocalUpload(
+  upload: LocalUpload,
+  chunk: ReadableStream<Uint8Array>,
+): Promise<LocalUpload> {
+  let streamError: unknown = null;
+  try {
+    await pipeline(
+      Readable.fromWeb(chunk as NodeReadableStream<Uint8Array>),
+      createWriteStream(partPath(upload.id), { flags: 'a' }),
+    );
+  } catch (error) {
+    streamError = error;
+  }
+
+  let { size } = await stat(partPath(upload.id));
+  if (size > upload.length) {
+    await truncate(partPath(upload.id), upload.length);
+    size = upload.length;
+  }
+  if (streamError) throw streamError;
+
+  const updated = { ...upload, offset: size };
+  return size === upload.length ? completeLocalUpload(updated) : updated;
+}
+
+async function completeLocalUpload(upload: LocalUpload): Promise<LocalUpload> {
+  const filePath = resolveLocalPath(upload.objectName);
+  if (!filePath) throw new Error(`Invalid storage path: ${upload.objectName}`);
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  // `link` fails instead of overwriting, like the local adapter's `wx` writes
+  await link(partPath(upload.id), filePath);
+  await removeLocalUpload(upload.id);
+  return upload;
+}
+
+export async function removeLocalUpload(id: string): Promise<void> {
+  if (!isUploadId(id)) return;
+  await Promise.all([
+    rm(partPath(id), { force: true }),
+    rm(descriptorPath(id), { force: true }),
+  ]);
+}
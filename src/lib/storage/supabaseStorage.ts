@@ -0,0 +1,76 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StorageAdapter, StoredObject } from '@/lib/storage/types';
+
+// Largest page the storage list endpoint returns
+const LIST_PAGE_SIZE = 1000;
+
+export function createSupabaseStorage(client: SupabaseClient, bucket: string): StorageAdapter {
+  const publicUrlMarker = `/storage/v1/object/public/${bucket}/`;
+
+  const getPublicUrl = (path: string): string => {
+    const { data } = client.storage
+      .from(bucket)
+      .getPublicUrl(path);
+
+    if (!data?.publicUrl) throw new Error('Failed to get public URL');
+    return data.publicUrl;
+  };
+
+  return {
+    async upload(path, file) {
+      const { error, data } = await client.storage
+        .from(bucket)
+        .upload(path, file, { contentType: file.type || undefined });
+
+      if (error) throw error;
+      if (!data?.path) throw new Error('Failed to get upload URL');
+
+      return { path: data.path, publicUrl: getPublicUrl(data.path) };
+    },
+
+    async remove(paths) {
+      if (paths.length === 0) return;
+
+      const { error } = await client.storage
+        .from(bucket)
+        .remove(paths);
+
+      if (error) throw error;
+    },
+
+    // Memory files sit at the bucket root, so one folder listing covers them
+    async list() {
+      const objects: StoredObject[] = [];
+      for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const { data, error } = await client.storage
+          .from(bucket)
+          .list('', { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+
+        if (error) throw error;
+        // Folders come back without an id
+        objects.push(...data
+          .filter(item => item.id)
+          .map(item => ({ path: item.name, createdAt: new Date(item.created_at) })));
+        if (data.length < LIST_PAGE_SIZE) return objects;
+      }
+    },
+
+    // The bucket is public; fetching the object's URL streams it, where the
+    // storage client's download would buffer it whole
+    async read(path) {
+      const response = await fetch(getPublicUrl(path));
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to read ${path}: ${response.status}`);
+      }
+      return response.body;
+    },
+
+    getPublicUrl,
+
+    toPath(value) {
+      const markerIndex = value.indexOf(publicUrlMarker);
+      if (markerIndex === -1) return value;
+      return decodeURIComponent(value.slice(markerIndex + publicUrlMarker.length).split('?')[0]);
+    },
+  };
+}
@@ -0,0 +1,23 @@
+export interface StoredFile {
+  path: string;
+  publicUrl: string;
+}
+
+export interface StoredObject {
+  path: string;
+  createdAt: Date;
+}
+
+// A place memory files live; paths are relative to the bucket or media root
+export interface StorageAdapter {
+  upload(path: string, file: Blob): Promise<StoredFile>;
+  remove(paths: string[]): Promise<void>;
+  // Every object in the bucket or media root
+  list(): Promise<StoredObject[]>;
+  // Contents of an object, streamed rather than read into memory
+  read(path: string): Promise<ReadableStream<Uint8Array>>;
+  getPublicUrl(path: string): string;
+  // Maps a public URL issued by this backend back to its object path; bare
+  // paths are returned unchanged
+  toPath(value: string): string;
+}
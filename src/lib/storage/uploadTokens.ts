@@ -0,0 +1,23 @@
+// Proof that a client owns an upload. The server picks the object name and
+// signs it; only the client it was handed to can later ask for the object to
+// be discarded.
+
+import { createSignedToken, verifySignedToken } from '@/lib/signedTokens';
+import { createFileName, ORPHAN_GRACE_PERIOD_MS } from '@/lib/storage';
+
+export interface IssuedUpload {
+  path: string;
+  token: string;
+}
+
+// A fresh object name for a file called `fileName`, with its token
+export function issueUpload(fileName: string): IssuedUpload {
+  const path = createFileName(fileName);
+  return { path, token: createSignedToken(`upload:${path}`) };
+}
+
+// Tokens expire with the grace period; older uploads are left to the orphan
+// sweep, which only removes what no memory points at
+export function verifyUploadToken(path: string, token: string): boolean {
+  return verifySignedToken(`upload:${path}`, token, ORPHAN_GRACE_PERIOD_MS);
+}
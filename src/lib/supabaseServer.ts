@@ -0,0 +1,37 @@
+import { createClient, type User } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+// The service role key bypasses row-level security, so it must never reach the browser
+const supabaseServiceKey =
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+
+export const supabaseServer = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+  },
+});
+
+// Resolve the user behind the `Authorization: Bearer <access token>` header, if any
+export async function getRequestUser(request: Request): Promise<User | null> {
+  const header = request.headers.get('authorization') || '';
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) return null;
+
+  const { data: { user }, error } = await supabaseServer.auth.getUser(token);
+  if (error) return null;
+  return user;
+}
+
+export async function isAdminRequest(request: Request): Promise<boolean> {
+  const user = await getRequestUser(request);
+  if (!user) return false;
+
+  const { data: profile } = await supabaseServer
+    .from('profiles')
+    .select('is_admin')
+    .eq('id', user.id)
+    .single();
+
+  return profile?.is_admin || false;
+}
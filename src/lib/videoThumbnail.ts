@@ -0,0 +1,118 @@
+// Builds video thumbnails in the browser: a frame of the video, or an image
+// the uploader picked instead, scaled to each size in THUMBNAIL_SIZES with
+// its aspect ratio intact
+
+// Longest side of each thumbnail size, smallest first
+export const THUMBNAIL_SIZES = [320, 720, 1280];
+
+const THUMBNAIL_QUALITY = 0.8;
+
+// Frame used until the uploader picks one: a second in, past the black
+// fade-in most cameras record, or the middle of shorter clips
+export const defaultThumbnailTime = (duration: number) =>
+  Number.isFinite(duration) && duration > 0 ? Math.min(1, duration / 2) : 0;
+
+export interface ThumbnailImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Picture a thumbnail is drawn from, at its full size
+interface ThumbnailSource {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+// Loads `source` (a picked file or a stored video's URL) and seeks to `time`,
+// or to the default frame when it is null
+function loadVideoFrame(source: File | string, time: number | null): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    const release = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+    };
+
+    // Stored videos come from the storage host; without CORS the canvas
+    // would be tainted and refuse to export
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => {
+      video.currentTime = time === null
+        ? defaultThumbnailTime(video.duration)
+        : Math.min(Math.max(time, 0), video.duration || 0);
+    };
+    video.onseeked = () => {
+      release();
+      resolve(video);
+    };
+    video.onerror = () => {
+      release();
+      reject(new Error('Failed to load video'));
+    };
+    video.src = url;
+  });
+}
+
+function toBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to generate thumbnail'))),
+      'image/jpeg',
+      THUMBNAIL_QUALITY,
+    );
+  });
+}
+
+// Scales the source to fit each size, skipping sizes larger than the source
+// itself (except the smallest, so there is always one)
+async function renderThumbnails({ image, width, height }: ThumbnailSource): Promise<ThumbnailImage[]> {
+  if (!width || !height) throw new Error('Failed to generate thumbnail');
+
+  const longSide = Math.max(width, height);
+  const sizes = THUMBNAIL_SIZES.filter((size, index) => index === 0 || size <= longSide);
+  const thumbnails: ThumbnailImage[] = [];
+  for (const size of sizes) {
+    const scale = Math.min(1, size / longSide);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    thumbnails.push({ blob: await toBlob(canvas), width: canvas.width, height: canvas.height });
+  }
+  return thumbnails;
+}
+
+// Thumbnails of the frame at `time` seconds into the video
+export async function createVideoThumbnails(source: File | string, time: number | null): Promise<ThumbnailImage[]> {
+  const video = await loadVideoFrame(source, time);
+  try {
+    return await renderThumbnails({ image: video, width: video.videoWidth, height: video.videoHeight });
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+// Thumbnails from an image the uploader picked instead of a frame
+export async function createImageThumbnails(file: File): Promise<ThumbnailImage[]> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    return await renderThumbnails({ image: bitmap, width: bitmap.width, height: bitmap.height });
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Adds the thumbnails to an upload form as `thumbnail` and `thumbnail_size`
+// pairs, the fields parseThumbnails reads; album videos pass their index as
+// `suffix` (`_2`)
+export function appendThumbnails(form: FormData, thumbnails: ThumbnailImage[], suffix = '') {
+  for (const { blob, width, height } of thumbnails) {
+    form.append(`thumbnail${suffix}`, blob, `thumbnail_${width}.jpg`);
+    form.append(`thumbnail_size${suffix}`, `${width}x${height}`);
+  }
+}
@@ -0,0 +1,39 @@
+-- Memories: a single photo, a single video, or a photo album (album_photos)
+
+create extension if not exists pg_trgm;
+
+create table if not exists public.memories (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  type text not null check (type in ('photo', 'video')),
+  title text not null,
+  -- Public URL for photos, bare storage object path for videos
+  src text,
+  -- Public URL of the generated video thumbnail
+  thumbnail text,
+  -- Display duration such as "1:05"
+  duration text,
+  date timestamptz not null default now(),
+  tags text[] not null default '{}',
+  -- Ordered list of { "src": "<public url>" }; the first entry is the cover
+  album_photos jsonb check (album_photos is null or jsonb_typeof(album_photos) = 'array')
+);
+
+-- Keyset pagination walks (date desc, id desc)
+create index if not exists memories_date_id_idx on public.memories (date desc, id desc);
+create index if not exists memories_type_date_id_idx on public.memories (type, date desc, id desc);
+create index if not exists memories_tags_idx on public.memories using gin (tags);
+create index if not exists memories_title_trgm_idx on public.memories using gin (title gin_trgm_ops);
+
+-- Stream inserts, updates and deletes to subscribed galleries. Adding a
+-- table the publication already has fails, so this checks first.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'memories'
+  ) then
+    alter publication supabase_realtime add table public.memories;
+  end if;
+end
+$$;
@@ -0,0 +1,39 @@
+-- Row-level security matching what the app assumes:
+--   * anyone can browse memories and add new ones (UploadModal is public)
+--   * only admins can edit or delete them (DeleteButton, /admin)
+--   * a signed-in user can read their own profile to learn whether they are
+--     an admin (AdminLogin, DeleteButton), but cannot grant themselves admin
+
+alter table public.memories enable row level security;
+alter table public.profiles enable row level security;
+
+drop policy if exists "Memories are viewable by everyone" on public.memories;
+create policy "Memories are viewable by everyone"
+  on public.memories for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Anyone can add memories" on public.memories;
+create policy "Anyone can add memories"
+  on public.memories for insert
+  to anon, authenticated
+  with check (true);
+
+drop policy if exists "Admins can update memories" on public.memories;
+create policy "Admins can update memories"
+  on public.memories for update
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "Admins can delete memories" on public.memories;
+create policy "Admins can delete memories"
+  on public.memories for delete
+  to authenticated
+  using (public.is_admin());
+
+drop policy if exists "Users can read their own profile" on public.profiles;
+create policy "Users can read their own profile"
+  on public.profiles for select
+  to authenticated
+  using (id = auth.uid());
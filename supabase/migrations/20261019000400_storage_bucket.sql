@@ -0,0 +1,23 @@
+-- Public `memories` bucket holding photos, videos and video thumbnails
+
+insert into storage.buckets (id, name, public)
+values ('memories', 'memories', true)
+on conflict (id) do update set public = excluded.public;
+
+drop policy if exists "Memory files are viewable by everyone" on storage.objects;
+create policy "Memory files are viewable by everyone"
+  on storage.objects for select
+  to anon, authenticated
+  using (bucket_id = 'memories');
+
+drop policy if exists "Anyone can upload memory files" on storage.objects;
+create policy "Anyone can upload memory files"
+  on storage.objects for insert
+  to anon, authenticated
+  with check (bucket_id = 'memories');
+
+drop policy if exists "Admins can delete memory files" on storage.objects;
+create policy "Admins can delete memory files"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'memories' and public.is_admin());
@@ -0,0 +1,8 @@
+-- Photos are uploaded as a resized display version (`src`) plus the untouched
+-- original; album entries carry the same pair as { "src", "original" }
+
+alter table public.memories
+  add column if not exists original text;
+
+comment on column public.memories.original is
+  'Public URL of the original photo when src holds a resized display version';
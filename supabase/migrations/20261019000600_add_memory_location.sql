@@ -0,0 +1,16 @@
+-- Where a memory was taken, read from photo GPS EXIF or video location
+-- metadata on upload and editable by admins; both set or both null
+
+alter table public.memories
+  add column if not exists latitude double precision check (latitude between -90 and 90),
+  add column if not exists longitude double precision check (longitude between -180 and 180);
+
+alter table public.memories
+  drop constraint if exists memories_location_pair;
+alter table public.memories
+  add constraint memories_location_pair check ((latitude is null) = (longitude is null));
+
+-- The map view lists only memories that have a location
+create index if not exists memories_located_date_id_idx
+  on public.memories (date desc, id desc)
+  where latitude is not null;
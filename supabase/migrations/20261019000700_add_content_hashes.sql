@@ -0,0 +1,20 @@
+-- SHA-256 (hex) of the original bytes of every file in a memory: one for a
+-- photo or video, one per album photo, which also carries its own as
+-- { "hash" }. Used to warn about and report duplicate uploads.
+
+alter table public.memories
+  add column if not exists content_hashes text[] not null default '{}';
+
+create index if not exists memories_content_hashes_idx
+  on public.memories using gin (content_hashes);
+
+-- Hashes held by more than one file, with the memories holding them
+create or replace view public.memory_duplicates
+with (security_invoker = true) as
+select
+  hash,
+  array_agg(distinct id order by id) as memory_ids,
+  count(*) as file_count
+from public.memories, unnest(content_hashes) as hash
+group by hash
+having count(*) > 1;
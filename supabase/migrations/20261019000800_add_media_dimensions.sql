@@ -0,0 +1,14 @@
+-- Pixel size of a photo (its album cover) or video, and a video's codec,
+-- read in the browser on upload. The gallery reserves each card's aspect
+-- ratio from the size before the media loads.
+
+alter table public.memories
+  add column if not exists width integer check (width > 0),
+  add column if not exists height integer check (height > 0),
+  -- Friendly codec name such as "H.264" or "HEVC"
+  add column if not exists codec text check (char_length(codec) <= 32);
+
+alter table public.memories
+  drop constraint if exists memories_dimensions_pair;
+alter table public.memories
+  add constraint memories_dimensions_pair check ((width is null) = (height is null));
@@ -0,0 +1,7 @@
+-- Video thumbnails in several sizes, each keeping the video's aspect ratio:
+-- [{ "src": "...", "width": 320, "height": 180 }, ...], smallest first.
+-- `thumbnail` keeps pointing at the largest one.
+
+alter table public.memories
+  add column if not exists thumbnails jsonb
+    check (thumbnails is null or jsonb_typeof(thumbnails) = 'array');
@@ -0,0 +1,39 @@
+-- Tags in use, with how many memories carry each; feeds the tag input's
+-- autocomplete and the admin tag manager
+create or replace view public.memory_tags
+with (security_invoker = true) as
+select
+  tag,
+  count(*) as memory_count
+from public.memories, unnest(tags) as tag
+group by tag;
+
+-- Replaces each of `old_tags` with `new_tag` on every memory carrying it, or
+-- drops them when `new_tag` is null. Renaming onto a tag a memory already has
+-- (a merge) keeps a single copy in the first one's place. Returns how many
+-- memories changed.
+create or replace function public.replace_memory_tags(old_tags text[], new_tag text)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  changed integer;
+begin
+  update public.memories as m
+  set tags = coalesce((
+    select array_agg(tag order by first_position)
+    from (
+      select tag, min(position) as first_position
+      from unnest(m.tags) with ordinality as t(current_tag, position),
+        lateral (select case when current_tag = any(old_tags) then new_tag else current_tag end as tag) as r
+      where tag is not null
+      group by tag
+    ) as kept
+  ), '{}')
+  where m.tags && old_tags;
+
+  get diagnostics changed = row_count;
+  return changed;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- How exactly `date` is known: to the day, or only the month or year. Month
+-- and year dates are stored as noon UTC on the first day of the period.
+
+alter table public.memories
+  add column if not exists date_precision text not null default 'day'
+    check (date_precision in ('day', 'month', 'year'));
@@ -0,0 +1,6 @@
+-- The story behind a memory, in lightweight markdown. Album photos carry
+-- their own captions in album_photos as { "caption" }.
+
+alter table public.memories
+  add column if not exists description text
+    check (description is null or char_length(description) <= 5000);
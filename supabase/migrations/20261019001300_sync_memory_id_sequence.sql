@@ -0,0 +1,15 @@
+-- A restore inserts memories with the ids they had, which the identity
+-- sequence never hands out; this moves it past the highest id so new
+-- memories don't collide. Returns the next id.
+create or replace function public.sync_memory_id_sequence()
+returns bigint
+language sql
+security definer
+set search_path = public
+as $$
+  select setval(pg_get_serial_sequence('public.memories', 'id'), coalesce(max(id), 0) + 1, false)
+  from public.memories;
+$$;
+
+-- Only the service role, which the restore script uses, may call it
+revoke execute on function public.sync_memory_id_sequence() from public, anon, authenticated;
@@ -0,0 +1,21 @@
+-- Which of `paths` (flat object names) a memory points at, in any of its file
+-- columns or album items. Photos store public URLs ending in the object name
+-- and videos the bare name, so a substring match covers both. Lets the API
+-- check a handful of uploads without reading every memory's files.
+create or replace function public.referenced_object_paths(paths text[])
+returns setof text
+language sql
+stable
+set search_path = public
+as $$
+  select path
+  from unnest(paths) as path
+  where exists (
+    select 1
+    from public.memories as m
+    where strpos(
+      concat_ws(' ', m.src, m.original, m.thumbnail, m.thumbnails::text, m.album_photos::text),
+      path
+    ) > 0
+  );
+$$;